@@ -33,10 +33,13 @@
 # Modes:      --dev (default) | --stealth (anti-fingerprint) | --user (main browser)
 # Server:     --server | --stop [--all] | --status (multi-server: each mode runs independently)
 # Quick:      goto <url> | click <ref> | jsclick <ref> | fill <ref> <text> | select <ref> <value> | text <ref> | aria | scroll-to <selector> | eval <js>
-# Screenshots: --screenshot | --snap | --diff | --baselines | --responsive | --resize
-# Inspect:    --inspect | --page-status | --console | --console-snapshot | --styles | --element | --annotate | --watch-design
-# Scripts:    --run <name> | --chain "cmd|cmd" | --list | --scenario | --scenarios
-# Diagnostics: --debug | --crashes | --tabs | --cleanup [--all | --project <prefix>]
+# Screenshots: --screenshot | --snap | --diff | --baselines | --responsive | --resize | --device | --devices | --pdf | --record start|stop [page]
+# Inspect:    --inspect | --page-status | --console | --console-snapshot | --styles | --element | --annotate | --watch-design | --vitals | --coverage start|stop [page] | --a11y [page] | --contrast [page]
+# Network:    --har start|stop [page] | --override add|list|clear | --throttle <preset|reset> | --downloads [wait]
+# State:      --state save|load <name> | --state list
+# Dialogs:    --dialog policy <accept|dismiss|queue> | --dialog list | --dialog accept|dismiss [id]
+# Scripts:    --run <name> | --chain "cmd|cmd" [--record] | --list | --scenario [--trace on-failure|always] [--record] [--coverage json|html] | --scenarios
+# Diagnostics: --debug | --crashes | --tabs | --cleanup [--all | --project <prefix>] | --trace start|stop [page]
 # Other:      --wplogin | --setup-brave | --help
 
 # Resolve script location (follow symlinks)
@@ -49,7 +52,7 @@ LIB_DIR="$DEV_BROWSER_DIR/lib"
 # Source common functions
 source "$LIB_DIR/common.sh"
 
-# Handle global flags: --cachebust, -p/--page, --quiet-console, --stealth, --user
+# Handle global flags: --cachebust, -p/--page, --context, --quiet-console, --stealth, --user
 CACHEBUST_FLAG=0
 QUIET_CONSOLE=0
 PAGE_NAME="main"  # Default page name
@@ -65,6 +68,10 @@ while [[ $# -gt 0 ]]; do
             PAGE_NAME="$2"
             shift 2
             ;;
+        --context)
+            export BROWSER_CONTEXT="$2"
+            shift 2
+            ;;
         --quiet-console|-q)
             QUIET_CONSOLE=1
             shift
@@ -112,9 +119,10 @@ case "$1" in
         ;;
 
     # Diagnostic commands
-    --debug|--crashes|--tabs|--cleanup)
+    --debug|--crashes|--tabs|--cleanup|--trace)
         source "$LIB_DIR/diagnostics.sh"
         case "$1" in
+            --trace) source "$LIB_DIR/server.sh"; shift; cmd_trace "$@"; exit $? ;;
             --debug) cmd_debug; exit 0 ;;
             --crashes) cmd_crashes; exit 0 ;;
             --tabs) cmd_tabs; exit 0 ;;
@@ -123,7 +131,7 @@ case "$1" in
         ;;
 
     # Screenshot commands
-    --screenshot|--snap|--diff|--baselines|--responsive|--resize)
+    --screenshot|--snap|--diff|--baselines|--responsive|--resize|--device|--devices|--pdf|--record)
         source "$LIB_DIR/server.sh"
         source "$LIB_DIR/screenshots.sh"
         case "$1" in
@@ -135,10 +143,19 @@ case "$1" in
                 export PROJECT_PREFIX=$(get_project_prefix)
                 shift # consume --screenshot
                 # Parse remaining args: [page] [filename] [--scroll-to <selector|pixels>]
-                _page="" _fname="" _scroll_to=""
+                #   [--selector <css|ref>] [--clip x,y,w,h] [--padding N] [--format png|jpeg|webp] [--quality N]
+                #   [--stable] [--mask <css|ref>]...
+                _page="" _fname="" _scroll_to="" _mask=""
                 while [[ $# -gt 0 ]]; do
                     case "$1" in
                         --scroll-to) _scroll_to="${2:-}"; shift 2 ;;
+                        --selector) export SHOT_TARGET="${2:-}"; shift 2 ;;
+                        --clip) export SHOT_CLIP="${2:-}"; shift 2 ;;
+                        --padding) export SHOT_PADDING="${2:-}"; shift 2 ;;
+                        --format) export SHOT_FORMAT="${2:-}"; shift 2 ;;
+                        --quality) export SHOT_QUALITY="${2:-}"; shift 2 ;;
+                        --stable) export SHOT_STABLE=1; shift ;;
+                        --mask) _mask+="${2:-}"$'\n'; shift 2 ;;
                         --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
                         *) if [[ -z "$_page" ]]; then _page="$1"; elif [[ -z "$_fname" ]]; then _fname="$1"; else echo "WARNING: Unknown argument '$1' ignored" >&2; fi; shift ;;
                     esac
@@ -146,23 +163,25 @@ case "$1" in
                 [[ -n "$_page" ]] && PAGE_NAME="$_page" && export PAGE_NAME
                 export SCRIPT_ARGS="$_fname"
                 [[ -n "$_scroll_to" ]] && export SCROLL_TO="$_scroll_to"
-                export SERVER_PORT
+                [[ -n "$_mask" ]] && export SHOT_MASK="$_mask"
+                export SERVER_PORT MAX_SCREENSHOT_DIM
                 cd "$DEV_BROWSER_DIR" && ./node_modules/.bin/tsx "$BUILTIN_SCRIPTS_DIR/screenshot.ts"
-                _exit=$?
-                _latest_shot="$PROJECT_SCREENSHOTS_DIR/$(ls -t "$PROJECT_SCREENSHOTS_DIR" 2>/dev/null | head -1)"
-                [[ -f "$_latest_shot" ]] && resize_screenshot "$_latest_shot" 2>/dev/null
-                exit $_exit
+                exit $?
                 ;;
-            --snap) "$VISUAL_DIFF" --snap "${2:-main}"; exit $? ;;
-            --diff) "$VISUAL_DIFF" --compare "${2:-main}"; exit $? ;;
-            --baselines) "$VISUAL_DIFF" --list; exit $? ;;
-            --responsive) cmd_responsive "$2" "$3"; exit $? ;;
+            --snap) shift; cmd_visual snap "$@"; exit $? ;;
+            --diff) shift; cmd_visual diff "$@"; exit $? ;;
+            --baselines) shift; cmd_visual list "$@"; exit $? ;;
+            --responsive) shift; cmd_responsive "$@"; exit $? ;;
             --resize) cmd_resize "$2" "$3" "$4"; exit $? ;;
+            --device) cmd_device "$2" "$3"; exit $? ;;
+            --devices) cmd_devices "$2"; exit $? ;;
+            --pdf) shift; cmd_pdf "$@"; exit $? ;;
+            --record) shift; cmd_record "$@"; exit $? ;;
         esac
         ;;
 
     # Inspect commands
-    --inspect|--page-status|--console|--console-snapshot|--styles|--element|--annotate|--watch-design)
+    --inspect|--page-status|--console|--console-snapshot|--styles|--element|--annotate|--watch-design|--vitals|--coverage|--a11y|--contrast)
         source "$LIB_DIR/server.sh"
         source "$LIB_DIR/inspect.sh"
         case "$1" in
@@ -174,9 +193,44 @@ case "$1" in
             --element) cmd_element "$2" "$3"; exit $? ;;
             --annotate) cmd_annotate "$2" "$3"; exit $? ;;
             --watch-design) cmd_watch_design "$2" "$3" "$4"; exit $? ;;
+            --vitals) shift; cmd_vitals "$@"; exit $? ;;
+            --coverage) shift; cmd_coverage "$@"; exit $? ;;
+            --a11y) shift; cmd_a11y "$@"; exit $? ;;
+            --contrast) shift; cmd_contrast "$@"; exit $? ;;
         esac
         ;;
 
+    # Network commands
+    --har|--override|--throttle|--downloads)
+        source "$LIB_DIR/server.sh"
+        source "$LIB_DIR/network.sh"
+        _cmd="$1"; shift
+        case "$_cmd" in
+            --har) cmd_har "$@"; exit $? ;;
+            --override) cmd_override "$@"; exit $? ;;
+            --throttle) cmd_throttle "$@"; exit $? ;;
+            --downloads) cmd_downloads "$@"; exit $? ;;
+        esac
+        ;;
+
+    # Saved auth state
+    --state)
+        source "$LIB_DIR/server.sh"
+        source "$LIB_DIR/state.sh"
+        shift
+        cmd_state "$@"
+        exit $?
+        ;;
+
+    # Dialog policy
+    --dialog)
+        source "$LIB_DIR/server.sh"
+        source "$LIB_DIR/dialogs.sh"
+        shift
+        cmd_dialog "$@"
+        exit $?
+        ;;
+
     # Script commands
     --run|--list|--scenario|--scenarios)
         source "$LIB_DIR/server.sh"
@@ -184,18 +238,21 @@ case "$1" in
         case "$1" in
             --run) shift; cmd_run "$@"; exit $? ;;
             --list) cmd_list; exit 0 ;;
-            --scenario) cmd_scenario "$2"; exit $? ;;
+            --scenario) shift; cmd_scenario "$@"; exit $? ;;
             --scenarios) cmd_scenarios; exit 0 ;;
         esac
         ;;
 
     # Chain commands (special handling to preserve args)
     --chain)
+        # Thin client over POST /pages/:name/actions (no CDP connection needed)
         source "$LIB_DIR/server.sh"
-        source "$LIB_DIR/runscript.sh"
         start_server || exit 1
         export SCRIPT_ARGS="$2"
-        run_script "$BUILTIN_SCRIPTS_DIR/chain.ts"
+        [[ "${3:-}" == "--record" ]] && export CHAIN_RECORD=1
+        export PROJECT_PREFIX=$(get_project_prefix)
+        export SERVER_PORT
+        cd "$DEV_BROWSER_DIR" && ./node_modules/.bin/tsx "$BUILTIN_SCRIPTS_DIR/chain.ts"
         exit $?
         ;;
 
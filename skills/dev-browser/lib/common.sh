@@ -54,7 +54,7 @@ DEV_BROWSER_HOME="${DEV_BROWSER_HOME:-$HOME/.dev-browser}"
 SCREENSHOTS_DIR="${SCREENSHOTS_DIR:-$DEV_BROWSER_HOME/screenshots}"
 BUILTIN_SCRIPTS_DIR="$DEV_BROWSER_DIR/scripts"
 USER_SCRIPTS_DIR="${USER_SCRIPTS_DIR:-$DEV_BROWSER_HOME/scripts}"
-VISUAL_DIFF="${VISUAL_DIFF:-$DEV_BROWSER_HOME/visual-diff}"
+DEV_BROWSER_BASELINES="${DEV_BROWSER_BASELINES:-$DEV_BROWSER_HOME/baselines}"
 
 # Debug logging (keeps last 500 lines)
 log_debug() {
@@ -140,25 +140,27 @@ get_project_paths() {
     mkdir -p "$PROJECT_TMP_DIR" "$PROJECT_SCREENSHOTS_DIR"
 }
 
-# Resize screenshot if exceeds Claude's limit
-resize_screenshot() {
-    local img="$1"
-    [[ ! -f "$img" ]] && return
-
-    if command -v sips &>/dev/null; then
-        local width=$(sips -g pixelWidth "$img" 2>/dev/null | tail -1 | awk '{print $2}')
-        local height=$(sips -g pixelHeight "$img" 2>/dev/null | tail -1 | awk '{print $2}')
-        if [[ "$width" -gt "$MAX_SCREENSHOT_DIM" ]] 2>/dev/null || [[ "$height" -gt "$MAX_SCREENSHOT_DIM" ]] 2>/dev/null; then
-            echo "Resizing screenshot (${width}x${height} -> max ${MAX_SCREENSHOT_DIM}px)..." >&2
-            sips --resampleHeightWidthMax "$MAX_SCREENSHOT_DIM" "$img" >/dev/null 2>&1
-        fi
-    elif command -v convert &>/dev/null; then
-        local dims=$(identify -format "%wx%h" "$img" 2>/dev/null)
-        local width=${dims%x*}
-        local height=${dims#*x}
-        if [[ "$width" -gt "$MAX_SCREENSHOT_DIM" ]] 2>/dev/null || [[ "$height" -gt "$MAX_SCREENSHOT_DIM" ]] 2>/dev/null; then
-            echo "Resizing screenshot (${width}x${height} -> max ${MAX_SCREENSHOT_DIM}px)..." >&2
-            convert "$img" -resize "${MAX_SCREENSHOT_DIM}x${MAX_SCREENSHOT_DIM}>" "$img"
-        fi
+# Resolve a page name against the server registry: prefixed name first,
+# then raw name for cross-project access. Prints the name, returns 1 if missing.
+resolve_page_name() {
+    local page_name="${1:-main}"
+    local full_name="$(get_project_prefix)-${page_name}"
+    local pages_json
+    pages_json=$(curl -s "http://localhost:${SERVER_PORT}/pages") || return 1
+
+    if echo "$pages_json" | jq -e --arg n "$full_name" '.pages | index($n)' >/dev/null 2>&1; then
+        printf '%s' "$full_name"
+    elif echo "$pages_json" | jq -e --arg n "$page_name" '.pages | index($n)' >/dev/null 2>&1; then
+        printf '%s' "$page_name"
+    else
+        echo "Page '${page_name}' not found (full name: ${full_name})" >&2
+        echo "Available pages:" >&2
+        echo "$pages_json" | jq -r '.pages[] | "  - " + .' >&2
+        return 1
     fi
 }
+
+# URL-encode a page name for use in server endpoint paths
+urlencode() {
+    jq -rn --arg v "$1" '$v | @uri'
+}
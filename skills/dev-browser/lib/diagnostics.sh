@@ -1,5 +1,5 @@
 #!/bin/bash
-# Diagnostic commands: debug, crashes, tabs, cleanup
+# Diagnostic commands: debug, crashes, tabs, cleanup, trace
 
 cmd_debug() {
     echo "=== RECENT DEBUG LOG (last 50 lines) ==="
@@ -60,7 +60,7 @@ if blank:
 "
     echo ""
     echo "=== REGISTERED PAGES ==="
-    curl -s "http://localhost:$_http/pages" 2>/dev/null | python3 -c "import sys,json; d=json.load(sys.stdin); pages=d.get('pages',[]); print(f'{len(pages)} registered'); [print(f'  - {p}') for p in pages]" 2>/dev/null || echo "(server not running)"
+    curl -s "http://localhost:$_http/pages" 2>/dev/null | python3 -c "import sys,json; d=json.load(sys.stdin); pages=d.get('pages',[]); ctx=d.get('contexts',{}); op=d.get('openers',{}); print(f'{len(pages)} registered'); [print(f'  - {p}' + (f' (context: {ctx[p]})' if ctx.get(p,'default') != 'default' else '') + (f' (opened by: {op[p]})' if p in op else '')) for p in pages]" 2>/dev/null || echo "(server not running)"
 }
 
 cmd_cleanup() {
@@ -170,3 +170,56 @@ for t in to_close:
 print(f'\nClosed {closed}/{len(to_close)} tabs')
 "
 }
+
+# Playwright trace of a page's context (screenshots, DOM snapshots, sources):
+#   --trace start [page] | --trace stop [page] [--discard]
+cmd_trace() {
+    local action="$1"; shift
+    local page_name="" discard=false
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --discard) discard=true; shift ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) [[ -z "$page_name" ]] && page_name="$1"; shift ;;
+        esac
+    done
+    page_name="${page_name:-main}"
+
+    if [[ "$action" != "start" && "$action" != "stop" ]]; then
+        echo "Usage: dev-browser.sh --trace start [page]" >&2
+        echo "       dev-browser.sh --trace stop [page] [--discard]" >&2
+        return 1
+    fi
+
+    start_server || return 1
+    local target_name
+    target_name=$(resolve_page_name "$page_name") || return 1
+    local base_url="http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")"
+
+    local body result
+    if [[ "$action" == "start" ]]; then
+        result=$(curl -s -X POST "$base_url/trace/start" -H 'Content-Type: application/json' -d '{}')
+        if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+            echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+            return 1
+        fi
+        echo "Trace recording started for page '${page_name}'"
+        echo "Stop with: dev-browser.sh --trace stop ${page_name}"
+        return 0
+    fi
+
+    get_project_paths
+    local trace_path="$PROJECT_TMP_DIR/trace_${page_name}_$(date +%s).zip"
+    body=$(jq -n --arg path "$trace_path" --argjson discard "$discard" '{path: $path, discard: $discard}')
+    result=$(curl -s -X POST "$base_url/trace/stop" -H 'Content-Type: application/json' -d "$body")
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+    if [[ "$discard" == true ]]; then
+        echo "Trace discarded"
+    else
+        echo "$result" | jq -r '"Trace saved: \(.path) (\(.bytes / 1024 | floor) KB, \(.duration / 1000 | floor)s)"'
+        echo "View with: npx playwright show-trace $trace_path"
+    fi
+}
@@ -0,0 +1,87 @@
+#!/bin/bash
+# Dialog (alert/confirm/prompt/beforeunload) policy commands
+
+# --dialog policy <accept|dismiss|queue> [page] [--text <prompt answer>]
+# --dialog list [page]
+# --dialog accept|dismiss [id] [page] [--text <prompt answer>]   (answer a queued dialog, default: oldest)
+cmd_dialog() {
+    local action="$1"; shift
+    local args=() text=""
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --text) text="$2"; shift 2 ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) args+=("$1"); shift ;;
+        esac
+    done
+
+    local policy="" dialog_id="" page_name=""
+    case "$action" in
+        policy) policy="${args[0]:-}"; page_name="${args[1]:-}" ;;
+        list) page_name="${args[0]:-}" ;;
+        accept|dismiss)
+            if [[ "${args[0]:-}" =~ ^[0-9]+$ ]]; then
+                dialog_id="${args[0]}"; page_name="${args[1]:-}"
+            else
+                page_name="${args[0]:-}"
+            fi
+            ;;
+        *) action="" ;;
+    esac
+    page_name="${page_name:-main}"
+
+    if [[ -z "$action" || ( "$action" == "policy" && ! "$policy" =~ ^(accept|dismiss|queue)$ ) ]]; then
+        echo "Usage: dev-browser.sh --dialog policy <accept|dismiss|queue> [page] [--text <prompt answer>]" >&2
+        echo "       dev-browser.sh --dialog list [page]" >&2
+        echo "       dev-browser.sh --dialog accept|dismiss [id] [page] [--text <prompt answer>]" >&2
+        return 1
+    fi
+
+    start_server || return 1
+    local target_name
+    target_name=$(resolve_page_name "$page_name") || return 1
+    local base_url="http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")/dialogs"
+    local result
+
+    case "$action" in
+        policy)
+            result=$(curl -s -X POST "$base_url/policy" -H 'Content-Type: application/json' \
+                -d "$(jq -n --arg action "$policy" --arg text "$text" \
+                    '{action: $action} + (if $text != "" then {promptText: $text} else {} end)')")
+            ;;
+        list)
+            result=$(curl -s "$base_url")
+            ;;
+        accept|dismiss)
+            if [[ -z "$dialog_id" ]]; then
+                dialog_id=$(curl -s "$base_url" | jq -r '[.dialogs[] | select(.handled == "pending")][0].id // empty')
+                if [[ -z "$dialog_id" ]]; then
+                    echo "No pending dialogs on page '${page_name}' (pending dialogs need: --dialog policy queue)" >&2
+                    return 1
+                fi
+            fi
+            result=$(curl -s -X POST "$base_url/$dialog_id" -H 'Content-Type: application/json' \
+                -d "$(jq -n --arg action "$action" --arg text "$text" \
+                    '{action: $action} + (if $text != "" then {promptText: $text} else {} end)')")
+            ;;
+    esac
+
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+
+    case "$action" in
+        policy) echo "Dialogs on page '${page_name}' → $(echo "$result" | jq -r '.policy.action')" ;;
+        accept|dismiss) echo "Dialog ${dialog_id} on page '${page_name}' → ${action}ed" ;;
+        list)
+            echo "=== DIALOGS: ${page_name} (policy: $(echo "$result" | jq -r '.policy.action')) ==="
+            if [[ "$(echo "$result" | jq '.dialogs | length')" -eq 0 ]]; then
+                echo "  (none)"
+            else
+                echo "$result" | jq -r '.dialogs[] |
+                    "  [\(.id)] \(.type) \"\(.message)\" → \(.handled)\(if .promptText then " (\"\(.promptText)\")" else "" end)"'
+            fi
+            ;;
+    esac
+}
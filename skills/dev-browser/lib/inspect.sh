@@ -155,133 +155,81 @@ cmd_console() {
     local page_name="${1:-main}"
     local timeout_sec="${2:-0}"
     start_server || return 1
-    local PREFIX=$(get_project_prefix)
-
-    if [[ "$timeout_sec" -gt 0 ]]; then
-        echo "Watching console for page '${page_name}' (timeout: ${timeout_sec}s)..." >&2
-    elif [[ "$timeout_sec" -eq 0 ]]; then
-        echo "Console snapshot for page '${page_name}'..." >&2
-    else
-        echo "Watching console for page '${page_name}' (Ctrl+C to stop)..." >&2
-    fi
-
-    cd "$DEV_BROWSER_DIR" && ./node_modules/.bin/tsx <<CONSOLE_SCRIPT
-import { connect } from "@/client.js";
-
-const client = await connect("http://localhost:${SERVER_PORT}");
-const pages = await client.list();
-let pageName = "${PREFIX}-${page_name}";
-if (!pages.includes(pageName) && pages.includes("${page_name}")) {
-    pageName = "${page_name}";
-}
-const timeoutSec = ${timeout_sec};
-const snapshotMode = timeoutSec === 0;
-if (!pages.includes(pageName)) {
-    console.log("Page '${page_name}' not found. Available pages:");
-    pages.forEach(p => console.log("  - " + p));
-    await client.disconnect();
-    process.exit(1);
-}
-
-const page = await client.page(pageName);
-
-// Use CDP for snapshot mode to get existing console entries
-if (snapshotMode) {
-    const cdp = await page.context().newCDPSession(page);
-
-    // Collect messages
-    const messages = [];
 
-    // Enable Console domain (collects existing messages)
-    cdp.on('Console.messageAdded', ({ message }) => {
-        messages.push({
-            type: message.level.toUpperCase(),
-            text: message.text,
-            url: message.url,
-            line: message.line
-        });
-    });
-
-    // Enable Runtime for any immediate console API calls
-    cdp.on('Runtime.consoleAPICalled', ({ type, args, timestamp }) => {
-        const text = args.map(a => a.value || a.description || '').join(' ');
-        messages.push({
-            type: type.toUpperCase(),
-            text: text,
-            timestamp: timestamp
-        });
-    });
-
-    // Enable domains
-    await cdp.send('Console.enable');
-    await cdp.send('Runtime.enable');
+    # Console output is buffered server-side from page creation, so nothing
+    # logged between commands is lost (GET /pages/:name/console)
+    local target_name
+    target_name=$(resolve_page_name "$page_name") || return 1
+    local base_url="http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")"
 
-    // Brief pause to collect any immediate messages
-    await new Promise(r => setTimeout(r, 200));
+    # Format buffered entries: [LEVEL  ] text (file:line)
+    local format='.entries[] | "  [\(.level | ascii_upcase | .[0:7] + (" " * (7 - (.[0:7] | length))))] \(.text)" +
+        (if .location.line then " (\(.location.url | split("/") | last):\(.location.line))" else "" end)'
 
-    // Also get any JS errors visible on page
-    const pageErrors = await page.evaluate(() => {
-        const errors = [];
-        // Check for common error display patterns
-        document.querySelectorAll('[class*="error"], [class*="Error"], .notice-error, .wp-die-message').forEach(el => {
-            const text = el.textContent?.trim();
-            if (text && text.length < 500) errors.push(text);
-        });
-        return errors.slice(0, 10);
-    });
-
-    // Output
-    console.log("=== CONSOLE SNAPSHOT: ${page_name} ===");
-    console.log("URL:", page.url());
-    console.log("");
-
-    if (messages.length > 0) {
-        console.log("📋 CONSOLE MESSAGES:");
-        messages.forEach(m => {
-            const loc = m.url ? \` (\${m.url.split('/').pop()}:\${m.line || '?'})\` : '';
-            console.log(\`  [\${m.type.padEnd(7)}] \${m.text}\${loc}\`);
-        });
-        console.log("");
-    }
-
-    if (pageErrors.length > 0) {
-        console.log("❌ VISIBLE ERRORS ON PAGE:");
-        pageErrors.forEach(e => console.log("  " + e.substring(0, 200)));
-        console.log("");
-    }
+    if [[ "$timeout_sec" -eq 0 ]]; then
+        echo "Console snapshot for page '${page_name}'..." >&2
+        local result
+        result=$(curl -s "$base_url/console")
+        if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+            echo "$result" | jq . >&2
+            return 1
+        fi
 
-    if (messages.length === 0 && pageErrors.length === 0) {
-        console.log("(No console messages or visible errors detected)");
-    }
+        echo "=== CONSOLE SNAPSHOT: ${page_name} ==="
+        echo "URL: $(curl -s "$base_url/url" | jq -r '.url')"
+        echo ""
+
+        local count
+        count=$(echo "$result" | jq '.entries | length')
+        if [[ "$count" -gt 0 ]]; then
+            echo "📋 CONSOLE MESSAGES ($count):"
+            echo "$result" | jq -r "$format"
+            local dropped
+            dropped=$(echo "$result" | jq '.dropped')
+            [[ "$dropped" -gt 0 ]] && echo "  ($dropped older entries dropped from buffer)"
+            echo ""
+        fi
 
-    await client.disconnect();
-    process.exit(0);
-}
+        # Also get any errors visible on the page
+        local page_errors
+        page_errors=$(curl -s -X POST "$base_url/evaluate" -H 'Content-Type: application/json' \
+            -d '{"code":"Array.from(document.querySelectorAll(\"[class*=error], [class*=Error], .notice-error, .wp-die-message\")).map(el => el.textContent?.trim()).filter(t => t && t.length < 500).slice(0, 10)"}' \
+            | jq -r '.result[]? | "  " + .[0:200]')
+        if [[ -n "$page_errors" ]]; then
+            echo "❌ VISIBLE ERRORS ON PAGE:"
+            echo "$page_errors"
+            echo ""
+        fi
 
-// Watch mode (timeout > 0 or continuous)
-page.on('console', msg => {
-    const type = msg.type().toUpperCase().padEnd(7);
-    console.log(\`[\${new Date().toLocaleTimeString()}] \${type} \${msg.text()}\`);
-});
-page.on('pageerror', err => {
-    console.log(\`[\${new Date().toLocaleTimeString()}] ERROR   \${err.message}\`);
-});
+        if [[ "$count" -eq 0 && -z "$page_errors" ]]; then
+            echo "(No console messages or visible errors detected)"
+        fi
+        return 0
+    fi
 
-console.log("Listening for console messages...");
-console.log("URL:", page.url());
-console.log("---");
+    # Watch mode: stream live console events from the server (GET /events)
+    if [[ "$timeout_sec" -gt 0 ]]; then
+        echo "Watching console for page '${page_name}' (timeout: ${timeout_sec}s)..." >&2
+    else
+        echo "Watching console for page '${page_name}' (Ctrl+C to stop)..." >&2
+    fi
 
-if (timeoutSec > 0) {
-    setTimeout(async () => {
-        console.log("---");
-        console.log(\`Timeout (\${timeoutSec}s) reached.\`);
-        await client.disconnect();
-        process.exit(0);
-    }, timeoutSec * 1000);
-} else {
-    await new Promise(() => {});
-}
-CONSOLE_SCRIPT
+    echo "Listening for console messages..."
+    echo "URL: $(curl -s "$base_url/url" | jq -r '.url')"
+    echo "---"
+
+    local -a max_time=()
+    [[ "$timeout_sec" -gt 0 ]] && max_time=(--max-time "$timeout_sec")
+    curl -sN "${max_time[@]}" \
+        "http://localhost:${SERVER_PORT}/events?page=$(urlencode "$target_name")&type=console,pageerror,requestfailed" |
+        while IFS= read -r line; do
+            [[ "$line" == data:* ]] || continue
+            echo "${line#data: }" | jq -r '"[\(.timestamp[11:19])] \(.data.level | ascii_upcase) \(.data.text)"'
+        done
+
+    echo "---"
+    [[ "$timeout_sec" -gt 0 ]] && echo "Timeout (${timeout_sec}s) reached."
+    return 0
 }
 
 cmd_console_snapshot() {
@@ -1147,8 +1095,8 @@ await page.evaluate((els: typeof elements) => {
     document.body.appendChild(overlay);
 }, elements);
 
-// Take screenshot (path set from bash)
-await page.screenshot({ path: screenshotPath });
+// Take screenshot (path set from bash) - the server downscales past the image size limit
+await client.screenshot(pageName, { path: screenshotPath, fullPage: false, maxWidth: ${MAX_SCREENSHOT_DIM}, maxHeight: ${MAX_SCREENSHOT_DIM} });
 
 // Remove overlay after screenshot
 await page.evaluate(() => {
@@ -1179,8 +1127,6 @@ console.log("💡 Use refs with: --element '.selector' or click <ref>");
 
 await client.disconnect();
 ANNOTATE_SCRIPT
-    # Resize if too large (same as --screenshot)
-    resize_screenshot "$screenshot_path"
 }
 
 cmd_watch_design() {
@@ -1352,3 +1298,210 @@ WATCH_SCRIPT
     # Wait for the tsx process (will be killed by trap on Ctrl+C)
     wait $tsx_pid 2>/dev/null || true
 }
+
+# Web vitals: --vitals [url] [page] [--settle <ms>] [--json]
+# Loads the page (or reloads the current one) with performance observers installed.
+# The JSON report is always saved to the project tmp dir for comparing runs.
+cmd_vitals() {
+    local url="" page_name="" settle="" json=false
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --settle) settle="$2"; shift 2 ;;
+            --json) json=true; shift ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            http://*|https://*|file://*) url="$1"; shift ;;
+            *) [[ -z "$page_name" ]] && page_name="$1"; shift ;;
+        esac
+    done
+    page_name="${page_name:-main}"
+
+    start_server || return 1
+    local target_name
+    target_name=$(resolve_page_name "$page_name") || return 1
+
+    local body result
+    body=$(jq -n --arg url "$url" --arg settle "$settle" '
+        (if $url != "" then {url: $url} else {} end)
+        + (if $settle != "" then {settle: ($settle | tonumber)} else {} end)')
+    result=$(curl -s -X POST "http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")/vitals" \
+        -H 'Content-Type: application/json' -d "$body")
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+
+    get_project_paths
+    local report_path="$PROJECT_TMP_DIR/vitals_${page_name}_$(date +%s).json"
+    echo "$result" | jq . > "$report_path"
+
+    if [[ "$json" == true ]]; then
+        echo "$result" | jq .
+        return 0
+    fi
+    echo "$result" | jq -r '
+        def ms: if . == null then "-" else "\(. | round)ms" end;
+        def kb: "\(. / 1024 | round) KB";
+        "Vitals: \(.url)",
+        "  LCP   \(.lcp | ms)\(if .lcpElement then " (\(.lcpElement))" else "" end)",
+        "  CLS   \(.cls)",
+        "  INP   \(.inp | ms)",
+        "  FCP   \(.fcp | ms)",
+        "  TTFB  \(.ttfb | ms)",
+        (if .navigation then "  DOMContentLoaded \(.navigation.domContentLoaded | ms), load \(.navigation.load | ms)" else empty end),
+        (if .longTasks then "  Long tasks: \(.longTasks.count) (TBT \(.longTasks.totalBlockingTime | ms), longest \(.longTasks.longest | ms))" else empty end),
+        "  Resources: \(.resources.total.count) requests, \(.resources.total.transferBytes | kb)",
+        (.resources.byType | to_entries | sort_by(-.value.transferBytes)[] | "    \(.key): \(.value.count), \(.value.transferBytes | kb)")'
+    echo "Report: $report_path"
+}
+
+# JS/CSS coverage: --coverage start [page] [--js-only | --css-only]
+#                  --coverage stop [page] [--html] [--json]
+# Collection spans navigations; stop saves a JSON report (or HTML with --html) to the project
+# tmp dir and prints the files with the most unused code (--json prints the full report).
+cmd_coverage() {
+    local action="$1"; shift
+    local page_name="" js=true css=true format="json" json=false
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --js-only) css=false; shift ;;
+            --css-only) js=false; shift ;;
+            --html) format="html"; shift ;;
+            --json) json=true; shift ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) [[ -z "$page_name" ]] && page_name="$1"; shift ;;
+        esac
+    done
+    page_name="${page_name:-main}"
+
+    if [[ "$action" != "start" && "$action" != "stop" ]]; then
+        echo "Usage: dev-browser.sh --coverage start [page] [--js-only | --css-only]" >&2
+        echo "       dev-browser.sh --coverage stop [page] [--html] [--json]" >&2
+        return 1
+    fi
+
+    start_server || return 1
+    local target_name
+    target_name=$(resolve_page_name "$page_name") || return 1
+    local base_url="http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")"
+
+    local body result
+    if [[ "$action" == "start" ]]; then
+        body=$(jq -n --argjson js "$js" --argjson css "$css" '{js: $js, css: $css}')
+        result=$(curl -s -X POST "$base_url/coverage/start" -H 'Content-Type: application/json' -d "$body")
+        if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+            echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+            return 1
+        fi
+        echo "Collecting coverage for page '${page_name}' - navigate and interact, then:"
+        echo "  dev-browser.sh --coverage stop ${page_name} [--html]"
+        return 0
+    fi
+
+    get_project_paths
+    local report_path="$PROJECT_TMP_DIR/coverage_${page_name}_$(date +%s).${format}"
+    body=$(jq -n --arg format "$format" --arg path "$report_path" '{report: $format, path: $path}')
+    result=$(curl -s -X POST "$base_url/coverage/stop" -H 'Content-Type: application/json' -d "$body")
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+
+    if [[ "$json" == true ]]; then
+        echo "$result" | jq .
+        return 0
+    fi
+    echo "$result" | jq -r '
+        def kb: "\(. / 1024 | round) KB";
+        def line($label): "\($label) \(.usedPercent)% used, \(.unusedBytes | kb) of \(.totalBytes | kb) unused";
+        "Coverage: \(.urls | join(" → "))",
+        (.js | line("  JS  ")),
+        (.css | line("  CSS ")),
+        "Most unused:",
+        (.files | sort_by(-.unusedBytes)[:10][] | "  \(.type | ascii_upcase | .[0:3])  \(.unusedBytes | kb) unused (\(.usedPercent)% used)  \(.url)")'
+    echo "Report: $report_path"
+}
+
+# Accessibility audit: --a11y [page] [--rules <rule,rule>] [--errors-only] [--json]
+# Uses the ARIA snapshot engine; refs in the output work with click/fill like snapshot refs.
+# Exits 1 when the audit finds errors.
+cmd_a11y() {
+    local page_name="" rules="" errors_only=false json=false
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --rules) rules="$2"; shift 2 ;;
+            --errors-only) errors_only=true; shift ;;
+            --json) json=true; shift ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) [[ -z "$page_name" ]] && page_name="$1"; shift ;;
+        esac
+    done
+    page_name="${page_name:-main}"
+
+    start_server || return 1
+    local target_name
+    target_name=$(resolve_page_name "$page_name") || return 1
+
+    local body result
+    body=$(jq -n --arg rules "$rules" 'if $rules != "" then {rules: ($rules | split(",") | map(select(. != "")))} else {} end')
+    result=$(curl -s -X POST "http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")/a11y" \
+        -H 'Content-Type: application/json' -d "$body")
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+
+    if [[ "$json" == true ]]; then
+        echo "$result" | jq .
+    else
+        echo "$result" | jq -r --argjson errors_only "$errors_only" '
+            "Accessibility: \(.url)",
+            "  \(.errors) error(s), \(.warnings) warning(s)",
+            (.findings | map(select(($errors_only | not) or .severity == "error")) | group_by(.rule)[]
+                | "\n\(.[0].rule) (\(length))",
+                  (.[] | "  \(if .severity == "error" then "✗" else "!" end) \(.message)\(if .ref then " [ref=\(.ref)]" else "" end)\n      \(.selector)\n      \(.html)"))'
+    fi
+    [[ "$(echo "$result" | jq -r '.errors')" == "0" ]]
+}
+
+# Color contrast: --contrast [page] [--aaa] [--all] [--json]
+# Checks visible text against WCAG AA (or AAA); refs in the output work like snapshot refs.
+# Exits 1 when any text fails the level.
+cmd_contrast() {
+    local page_name="" level="AA" all=false json=false
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --aaa) level="AAA"; shift ;;
+            --all) all=true; shift ;;
+            --json) json=true; shift ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) [[ -z "$page_name" ]] && page_name="$1"; shift ;;
+        esac
+    done
+    page_name="${page_name:-main}"
+
+    start_server || return 1
+    local target_name
+    target_name=$(resolve_page_name "$page_name") || return 1
+
+    local body result
+    body=$(jq -n --arg level "$level" --argjson all "$all" '{level: $level, all: $all}')
+    result=$(curl -s -X POST "http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")/contrast" \
+        -H 'Content-Type: application/json' -d "$body")
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+
+    if [[ "$json" == true ]]; then
+        echo "$result" | jq .
+    else
+        echo "$result" | jq -r '
+            (.level | ascii_downcase) as $key
+            | "Contrast (\(.level)): \(.url)",
+              "  \(.checked) checked: \(.passed) passed, \(.failed) failed, \(.unknown) unknown",
+              (.results | sort_by(.ratio // 99)[]
+                | "  \(if .[$key] == "pass" then "✓" elif .[$key] == "fail" then "✗" else "?" end) \(if .ratio then "\(.ratio):1" else "  ?  " end)  \"\(.text)\"\(if .ref then " [ref=\(.ref)]" else "" end)",
+                  "      \(.color) on \(.background // "unknown (\(.reason))"), \(.fontSize)px/\(.fontWeight)\(if .large then " (large)" else "" end) - \(.selector)")'
+    fi
+    [[ "$(echo "$result" | jq -r '.failed')" == "0" ]]
+}
@@ -0,0 +1,247 @@
+#!/bin/bash
+# Network recording and control commands
+
+# HAR recording: --har start [page] [--bodies] [--max-body <bytes>] | --har stop [page]
+cmd_har() {
+    local action="$1"; shift
+    local page_name="" bodies=false max_body=""
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --bodies) bodies=true; shift ;;
+            --max-body) max_body="$2"; shift 2 ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) [[ -z "$page_name" ]] && page_name="$1"; shift ;;
+        esac
+    done
+    page_name="${page_name:-main}"
+
+    if [[ "$action" != "start" && "$action" != "stop" ]]; then
+        echo "Usage: dev-browser.sh --har start [page] [--bodies] [--max-body <bytes>]" >&2
+        echo "       dev-browser.sh --har stop [page]" >&2
+        return 1
+    fi
+
+    start_server || return 1
+    local target_name
+    target_name=$(resolve_page_name "$page_name") || return 1
+    local base_url="http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")"
+
+    local body result
+    if [[ "$action" == "start" ]]; then
+        body=$(jq -n --argjson bodies "$bodies" --arg max "$max_body" \
+            '{bodies: $bodies} + (if $max != "" then {maxBodySize: ($max | tonumber)} else {} end)')
+        result=$(curl -s -X POST "$base_url/har/start" -H 'Content-Type: application/json' -d "$body")
+        if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+            echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+            return 1
+        fi
+        echo "HAR recording started for page '${page_name}' (bodies: ${bodies})"
+        echo "Stop with: dev-browser.sh --har stop ${page_name}"
+        return 0
+    fi
+
+    get_project_paths
+    local har_path="$PROJECT_TMP_DIR/har_${page_name}_$(date +%s).har"
+    body=$(jq -n --arg path "$har_path" '{path: $path}')
+    result=$(curl -s -X POST "$base_url/har/stop" -H 'Content-Type: application/json' -d "$body")
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+    echo "$result" | jq -r '"HAR saved: \(.path) (\(.entries) requests, \(.duration / 1000 | floor)s)"'
+}
+
+# Local file overrides:
+#   --override add <url-glob> <file> [page] [--watch] [--all]
+#   --override list [page] [--all]
+#   --override clear [page] [--all]
+# --all applies to every page in the browser context (--context <name>, default context otherwise)
+cmd_override() {
+    local action="$1"; shift
+    local args=() watch=false all=false
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --watch) watch=true; shift ;;
+            --all) all=true; shift ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) args+=("$1"); shift ;;
+        esac
+    done
+
+    local url_glob="" file="" page_name
+    case "$action" in
+        add)
+            url_glob="${args[0]:-}"; file="${args[1]:-}"; page_name="${args[2]:-main}"
+            if [[ -z "$url_glob" || -z "$file" ]]; then
+                echo "Usage: dev-browser.sh --override add <url-glob> <file> [page] [--watch] [--all]" >&2
+                return 1
+            fi
+            if [[ ! -f "$file" ]]; then
+                echo "ERROR: File not found: $file" >&2
+                return 1
+            fi
+            # Server resolves paths from its own cwd - always send an absolute path
+            file="$(cd "$(dirname "$file")" && pwd)/$(basename "$file")"
+            ;;
+        list|clear) page_name="${args[0]:-main}" ;;
+        *)
+            echo "Usage: dev-browser.sh --override add <url-glob> <file> [page] [--watch] [--all]" >&2
+            echo "       dev-browser.sh --override list|clear [page] [--all]" >&2
+            return 1
+            ;;
+    esac
+
+    start_server || return 1
+    local endpoint label
+    if [[ "$all" == true ]]; then
+        endpoint="http://localhost:${SERVER_PORT}/overrides?context=$(urlencode "${BROWSER_CONTEXT:-default}")"
+        label="all pages in context '${BROWSER_CONTEXT:-default}'"
+    else
+        local target_name
+        target_name=$(resolve_page_name "$page_name") || return 1
+        endpoint="http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")/overrides"
+        label="page '${page_name}'"
+    fi
+
+    local result
+    case "$action" in
+        add)
+            result=$(curl -s -X POST "$endpoint" -H 'Content-Type: application/json' \
+                -d "$(jq -n --arg url "$url_glob" --arg file "$file" --argjson watch "$watch" \
+                    '{url: $url, file: $file, watch: $watch}')")
+            ;;
+        list) result=$(curl -s "$endpoint") ;;
+        clear) result=$(curl -s -X DELETE "$endpoint") ;;
+    esac
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+
+    case "$action" in
+        add)
+            echo "$result" | jq -r '.overrides[] | "Override \(.id): \(.url) ← \(.file)" + (if .watch then " (watching, reloads on change)" else "" end)'
+            echo "Applied to ${label}. Reload the page to pick it up."
+            ;;
+        list)
+            local count
+            count=$(echo "$result" | jq '.overrides | length')
+            if [[ "$count" -eq 0 ]]; then
+                echo "No overrides for ${label}"
+            else
+                echo "=== OVERRIDES: ${label} ==="
+                echo "$result" | jq -r '.overrides[] | "  \(.id)  \(.url) ← \(.file)  [hits: \(.hits)" + (if .watch then ", reloads: \(.reloads)" else "" end) + "]"'
+            fi
+            ;;
+        clear) echo "Removed $(echo "$result" | jq '.removed') override(s) from ${label}" ;;
+    esac
+}
+
+# Network/CPU throttling:
+#   --throttle <slow-3g|fast-3g|4g|offline> [page] [--cpu <factor>] [--latency <ms>]
+#   --throttle cpu <factor> [page]   (CPU only)
+#   --throttle reset [page]
+cmd_throttle() {
+    local preset="$1"; shift
+    local page_name="" cpu="" latency=""
+    if [[ "$preset" == "cpu" ]]; then
+        cpu="$1"; shift
+        preset=""
+    fi
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --cpu) cpu="$2"; shift 2 ;;
+            --latency) latency="$2"; shift 2 ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) [[ -z "$page_name" ]] && page_name="$1"; shift ;;
+        esac
+    done
+    page_name="${page_name:-main}"
+
+    if [[ -z "$preset" && -z "$cpu" ]]; then
+        echo "Usage: dev-browser.sh --throttle <slow-3g|fast-3g|4g|offline> [page] [--cpu <factor>] [--latency <ms>]" >&2
+        echo "       dev-browser.sh --throttle cpu <factor> [page]" >&2
+        echo "       dev-browser.sh --throttle reset [page]" >&2
+        return 1
+    fi
+
+    start_server || return 1
+    local target_name
+    target_name=$(resolve_page_name "$page_name") || return 1
+    local endpoint="http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")/throttle"
+
+    local result
+    if [[ "$preset" == "reset" || "$preset" == "none" ]]; then
+        result=$(curl -s -X DELETE "$endpoint")
+    else
+        result=$(curl -s -X POST "$endpoint" -H 'Content-Type: application/json' \
+            -d "$(jq -n --arg preset "$preset" --arg cpu "$cpu" --arg latency "$latency" '
+                (if $preset != "" then {preset: $preset} else {} end)
+                + (if $cpu != "" then {cpu: ($cpu | tonumber)} else {} end)
+                + (if $latency != "" then {latency: ($latency | tonumber)} else {} end)')")
+    fi
+
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+    echo "$result" | jq -r --arg page "$page_name" '
+        def kbps: if . < 0 then "unlimited" else "\(.) kbps" end;
+        if .conditions == null then "Throttling off for page \($page)" else
+        .conditions | "Throttling page \($page): " +
+            (if .offline then "offline" else "latency \(.latency)ms, down \(.downloadKbps | kbps), up \(.uploadKbps | kbps)" end) +
+            ", cpu \(.cpu)x" end'
+}
+
+# Downloads (saved by the server to <tmp>/<project>/downloads):
+#   --downloads [page] [--all]              list captured downloads (--all: every page)
+#   --downloads wait [page] [--timeout <ms>] wait for the page's next download
+cmd_downloads() {
+    local action="list"
+    if [[ "${1:-}" == "wait" || "${1:-}" == "list" ]]; then
+        action="$1"; shift
+    fi
+    local page_name="" all=false timeout=""
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --all) all=true; shift ;;
+            --timeout) timeout="$2"; shift 2 ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) [[ -z "$page_name" ]] && page_name="$1"; shift ;;
+        esac
+    done
+    page_name="${page_name:-main}"
+
+    start_server || return 1
+    local base_url="http://localhost:${SERVER_PORT}"
+    local target_name result
+    if [[ "$action" == "list" && "$all" == true ]]; then
+        result=$(curl -s "$base_url/downloads")
+    else
+        target_name=$(resolve_page_name "$page_name") || return 1
+        if [[ "$action" == "wait" ]]; then
+            echo "Waiting for a download on page '${page_name}'..." >&2
+            result=$(curl -s "$base_url/pages/$(urlencode "$target_name")/downloads/next?timeout=${timeout:-30000}")
+        else
+            result=$(curl -s "$base_url/downloads?page=$(urlencode "$target_name")")
+        fi
+    fi
+
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+
+    local format='"  [\(.id)] \(.suggestedFilename) - \(if .status == "complete" then "\(.size) bytes → \(.path)" else .status + (if .error then ": \(.error)" else "" end) end)\n      from \(.url) (page: \(.page))"'
+    if [[ "$action" == "wait" ]]; then
+        echo "$result" | jq -r "$format"
+        [[ "$(echo "$result" | jq -r '.status')" == "complete" ]]
+        return $?
+    fi
+    if [[ "$(echo "$result" | jq '.downloads | length')" -eq 0 ]]; then
+        echo "No downloads captured$([[ "$all" == true ]] || echo " for page '${page_name}'")"
+        return 0
+    fi
+    echo "=== DOWNLOADS ==="
+    echo "$result" | jq -r ".downloads[] | $format"
+}
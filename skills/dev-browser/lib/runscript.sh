@@ -87,6 +87,7 @@ run_script() {
 // Auto-injected by wrapper.sh
 const __PROJECT_PREFIX = "${PREFIX}";
 const __SERVER_PORT = "${SERVER_PORT}";
+const __BROWSER_CONTEXT = "${BROWSER_CONTEXT:-}";
 const __pageName = (name: string) => __PROJECT_PREFIX + "-" + name;
 
 // Console message collector
@@ -100,7 +101,7 @@ const connect = async (url?: string) => {
     const client = await __originalConnect(serverUrl);
     const originalPage = client.page.bind(client);
     const originalList = client.list.bind(client);
-    client.page = async (name: string) => {
+    client.page = async (name: string, options?: { context?: string; persist?: boolean; project?: string }) => {
         // Try prefixed name first, then raw name for cross-project access
         const prefixedName = __pageName(name);
         const pages = await originalList();
@@ -108,7 +109,12 @@ const connect = async (url?: string) => {
         if (!pages.includes(prefixedName) && pages.includes(name)) {
             pageName = name;
         }
-        const page = await originalPage(pageName);
+        // --context <name> applies to every page the script creates; project picks the downloads dir
+        const page = await originalPage(pageName, {
+            project: __PROJECT_PREFIX,
+            ...(__BROWSER_CONTEXT ? { context: __BROWSER_CONTEXT } : {}),
+            ...options,
+        });
         // Auto-capture console messages
         page.on('console', (msg: any) => {
             __consoleMessages.push({ type: msg.type(), text: msg.text() });
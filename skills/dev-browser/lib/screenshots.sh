@@ -27,17 +27,25 @@ if (!pages.includes(pageName)) {
 }
 const page = await client.page(pageName);
 console.log("Page URL:", page.url(), "| Target:", pageName);
-await page.screenshot({ path: "${screenshot_path}", fullPage: true });
+await client.screenshot(pageName, { path: "${screenshot_path}", fullPage: true, maxWidth: ${MAX_SCREENSHOT_DIM}, maxHeight: ${MAX_SCREENSHOT_DIM} });
 console.log("Screenshot saved:", "${screenshot_path}");
 await client.disconnect();
 SCREENSHOT_SCRIPT
-    resize_screenshot "$screenshot_path"
 }
 
 cmd_responsive() {
-    local page_name="${1:-main}"
+    # Usage: --responsive [page] [output_dir] [--stable] [--mask <css|ref>]...
+    local page_name="" output_dir="" stable=false masks="[]"
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --stable) stable=true; shift ;;
+            --mask) masks=$(jq -c --arg m "${2:-}" '. + [$m]' <<< "$masks"); shift 2 ;;
+            *) if [[ -z "$page_name" ]]; then page_name="$1"; elif [[ -z "$output_dir" ]]; then output_dir="$1"; fi; shift ;;
+        esac
+    done
+    page_name="${page_name:-main}"
     get_project_paths
-    local output_dir="${2:-$PROJECT_SCREENSHOTS_DIR}"
+    output_dir="${output_dir:-$PROJECT_SCREENSHOTS_DIR}"
     start_server || return 1
     local PREFIX=$(get_project_prefix)
     mkdir -p "$output_dir"
@@ -77,7 +85,7 @@ for (const bp of breakpoints) {
     );
     const status = hasOverflow ? '❌ OVERFLOW' : '✅ OK';
     const path = "${output_dir}/${timestamp}-${page_name}-" + bp.name + ".png";
-    await page.screenshot({ path, fullPage: true });
+    await client.screenshot(pageName, { path, fullPage: true, stable: ${stable}, mask: ${masks} });
     console.log(\`\${bp.name.padEnd(8)} (\${bp.width}px): \${status} → \${path}\`);
 }
 await page.setViewportSize({ width: 1280, height: 800 });
@@ -86,6 +94,34 @@ await client.disconnect();
 RESPONSIVE_SCRIPT
 }
 
+# Visual regression: snap saves a baseline, diff compares against it, list shows baselines
+# Baselines live in $DEV_BROWSER_BASELINES/<project>/<page>/<viewport>/<name>.png
+cmd_visual() {
+    local mode="$1"; shift
+    local page_name="" mask=""
+    export VD_MODE="$mode"
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --name) export VD_NAME="${2:-}"; shift 2 ;;
+            --threshold) export VD_THRESHOLD="${2:-}"; shift 2 ;;
+            --max-diff) export VD_MAX_DIFF="${2:-}"; shift 2 ;;
+            --mask) mask+="${2:-}"$'\n'; shift 2 ;;
+            --viewport-only) export VD_VIEWPORT_ONLY=1; shift ;;
+            --json) export VD_JSON=1; shift ;;
+            --all) export VD_ALL=1; shift ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) page_name="$1"; shift ;;
+        esac
+    done
+    [[ -n "$mask" ]] && export VD_MASK="$mask"
+
+    [[ "$mode" != "list" ]] && { start_server || return 1; }
+    export PAGE_NAME="${page_name:-main}"
+    export PROJECT_PREFIX=$(get_project_prefix)
+    export SERVER_PORT DEV_BROWSER_HOME DEV_BROWSER_BASELINES
+    cd "$DEV_BROWSER_DIR" && ./node_modules/.bin/tsx "$BUILTIN_SCRIPTS_DIR/visual-diff.ts"
+}
+
 cmd_resize() {
     local width="$1"
     local height="${2:-900}"
@@ -145,3 +181,146 @@ cmd_resize() {
         return 1
     fi
 }
+
+# Device emulation: --device <name|reset> [page]
+cmd_device() {
+    local device="$1"
+    local page_name="${2:-main}"
+
+    if [[ -z "$device" ]]; then
+        echo "Usage: dev-browser.sh --device <name|reset> [page]" >&2
+        echo "  Examples: --device 'iPhone 13'  --device 'Pixel 7' checkout  --device reset" >&2
+        echo "  List devices: dev-browser.sh --devices [filter]" >&2
+        return 1
+    fi
+
+    start_server || return 1
+    local target_name
+    target_name=$(resolve_page_name "$page_name") || return 1
+    local endpoint="http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")/emulate"
+
+    local result
+    if [[ "$device" == "reset" || "$device" == "none" ]]; then
+        result=$(curl -s -X DELETE "$endpoint")
+    else
+        result=$(curl -s -X POST "$endpoint" -H 'Content-Type: application/json' \
+            -d "$(jq -n --arg device "$device" '{device: $device}')")
+    fi
+
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+    echo "$result" | jq -r 'if .device == null then "Emulation reset (desktop viewport and UA)" else
+        "Emulating \(.device.name): \(.device.viewport.width)x\(.device.viewport.height) @\(.device.deviceScaleFactor)x" +
+        (if .device.isMobile then ", mobile" else "" end) + (if .device.hasTouch then ", touch" else "" end) end'
+}
+
+# List emulation devices: --devices [filter]
+cmd_devices() {
+    local filter="${1:-}"
+    start_server || return 1
+    curl -s "http://localhost:${SERVER_PORT}/devices" | jq -r --arg f "$filter" '
+        .devices[] | select($f == "" or (.name | ascii_downcase | contains($f | ascii_downcase)))
+        | "  \(.name)  \(.viewport.width)x\(.viewport.height) @\(.deviceScaleFactor)x" + (if .isMobile then "  mobile" else "" end)'
+}
+
+# Print to PDF: --pdf [page] [--format A4] [--landscape] [--margin <css>] [--pages <ranges>]
+#                     [--header <html>] [--footer <html>] [--no-background] [--screen]
+cmd_pdf() {
+    local page_name="" format="" landscape=false margin="" ranges="" header="" footer=""
+    local background=true media="print"
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --format) format="$2"; shift 2 ;;
+            --landscape) landscape=true; shift ;;
+            --margin) margin="$2"; shift 2 ;;
+            --pages) ranges="$2"; shift 2 ;;
+            --header) header="$2"; shift 2 ;;
+            --footer) footer="$2"; shift 2 ;;
+            --no-background) background=false; shift ;;
+            --screen) media="screen"; shift ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) [[ -z "$page_name" ]] && page_name="$1"; shift ;;
+        esac
+    done
+    page_name="${page_name:-main}"
+
+    start_server || return 1
+    local target_name
+    target_name=$(resolve_page_name "$page_name") || return 1
+    get_project_paths
+    local pdf_path="$PROJECT_SCREENSHOTS_DIR/${page_name}-$(date +%s).pdf"
+
+    local body result
+    body=$(jq -n --arg path "$pdf_path" --arg format "$format" --argjson landscape "$landscape" \
+        --arg margin "$margin" --arg ranges "$ranges" --arg header "$header" --arg footer "$footer" \
+        --argjson background "$background" --arg media "$media" '
+        {path: $path, landscape: $landscape, printBackground: $background, media: $media}
+        + (if $format != "" then {format: $format} else {} end)
+        + (if $margin != "" then {margin: {top: $margin, right: $margin, bottom: $margin, left: $margin}} else {} end)
+        + (if $ranges != "" then {pageRanges: $ranges} else {} end)
+        + (if $header != "" then {headerTemplate: $header} else {} end)
+        + (if $footer != "" then {footerTemplate: $footer} else {} end)')
+    result=$(curl -s -X POST "http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")/pdf" \
+        -H 'Content-Type: application/json' -d "$body")
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+    echo "$result" | jq -r '"PDF saved: \(.path) (\(.bytes / 1024 | round) KB\(if .via == "headless" then ", printed via headless copy" else "" end))"'
+}
+
+# Screencast video: --record start [page] [--fps N] [--max-duration <seconds>] [--quality N]
+#                   --record stop [page]
+cmd_record() {
+    local action="$1"; shift
+    local page_name="" fps="" max_duration="" quality=""
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --fps) fps="$2"; shift 2 ;;
+            --max-duration) max_duration="$2"; shift 2 ;;
+            --quality) quality="$2"; shift 2 ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) [[ -z "$page_name" ]] && page_name="$1"; shift ;;
+        esac
+    done
+    page_name="${page_name:-main}"
+
+    if [[ "$action" != "start" && "$action" != "stop" ]]; then
+        echo "Usage: dev-browser.sh --record start [page] [--fps N] [--max-duration <seconds>] [--quality N]" >&2
+        echo "       dev-browser.sh --record stop [page]" >&2
+        return 1
+    fi
+
+    start_server || return 1
+    local target_name
+    target_name=$(resolve_page_name "$page_name") || return 1
+    local base_url="http://localhost:${SERVER_PORT}/pages/$(urlencode "$target_name")"
+
+    local body result
+    if [[ "$action" == "start" ]]; then
+        body=$(jq -n --arg fps "$fps" --arg max "$max_duration" --arg quality "$quality" '
+            {}
+            + (if $fps != "" then {fps: ($fps | tonumber)} else {} end)
+            + (if $max != "" then {maxDuration: ($max | tonumber * 1000)} else {} end)
+            + (if $quality != "" then {quality: ($quality | tonumber)} else {} end)')
+        result=$(curl -s -X POST "$base_url/screencast/start" -H 'Content-Type: application/json' -d "$body")
+        if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+            echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+            return 1
+        fi
+        echo "Recording page '${page_name}' at $(echo "$result" | jq -r '.fps') fps"
+        echo "Stop with: dev-browser.sh --record stop ${page_name}"
+        return 0
+    fi
+
+    get_project_paths
+    body=$(jq -n --arg path "$PROJECT_TMP_DIR/video_${page_name}_$(date +%s).webm" '{path: $path}')
+    result=$(curl -s -X POST "$base_url/screencast/stop" -H 'Content-Type: application/json' -d "$body")
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+    echo "$result" | jq -r '"Video saved: \(.path)\(if .format == "frames" then "/index.html (no ffmpeg - frame sequence)" else "" end) (\(.frames) frames, \(.duration / 1000 | floor)s\(if .stoppedBy == "maxDuration" then ", hit max duration" else "" end))"'
+}
@@ -67,8 +67,10 @@ cmd_scenarios() {
 
 cmd_scenario() {
     local scenario_file="$1"
+    shift
+    # Remaining args go to the runner (--trace on-failure|always, --record, --coverage json|html)
     if [[ -z "$scenario_file" ]]; then
-        echo "Usage: dev-browser.sh --scenario <file.yaml>" >&2
+        echo "Usage: dev-browser.sh --scenario <file.yaml> [--trace on-failure|always] [--record] [--coverage json|html]" >&2
         echo "" >&2
         echo "Available scenarios (use --scenarios to list):" >&2
         find "$DEV_BROWSER_DIR/scenarios/examples" -name "*.yaml" -o -name "*.yml" 2>/dev/null | head -5 | xargs -I{} basename {} | sed 's/^/  /'
@@ -86,5 +88,9 @@ cmd_scenario() {
     fi
 
     start_server || return 1
-    cd "$DEV_BROWSER_DIR" && exec bun x tsx src/scenario-runner.ts "$SCENARIO_PATH"
+    # visualMatch assertions keep their baselines per project, --trace zips go to its tmp dir
+    get_project_paths
+    export PROJECT_PREFIX=$(get_project_prefix)
+    export PROJECT_TMP_DIR DEV_BROWSER_HOME DEV_BROWSER_BASELINES
+    cd "$DEV_BROWSER_DIR" && exec bun x tsx src/scenario-runner.ts "$SCENARIO_PATH" "$@"
 }
@@ -28,7 +28,13 @@ try:
 except:
     registered_count = 0
 
-blank = [t for t in tabs if t.get('url','').startswith('about:blank')]
+# Registered pages (including auto-registered popups) are never orphans
+try:
+    registered_ids = set(registry.get('targets', {}).values())
+except:
+    registered_ids = set()
+
+blank = [t for t in tabs if t.get('url','').startswith('about:blank') and t.get('id') not in registered_ids]
 if not blank:
     sys.exit(0)
 
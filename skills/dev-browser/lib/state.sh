@@ -0,0 +1,63 @@
+#!/bin/bash
+# Saved auth state commands (cookies + localStorage + sessionStorage)
+
+# --state save <name> [--origin <url>] | --state load <name> | --state list
+# Works on the default context, or the one selected with --context <name>
+cmd_state() {
+    local action="$1"; shift
+    local state_name="" origin=""
+    while [[ $# -gt 0 ]]; do
+        case "$1" in
+            --origin) origin="$2"; shift 2 ;;
+            --*) echo "WARNING: Unknown flag '$1' ignored" >&2; shift ;;
+            *) [[ -z "$state_name" ]] && state_name="$1"; shift ;;
+        esac
+    done
+
+    if [[ "$action" != "list" && ( -z "$state_name" || ( "$action" != "save" && "$action" != "load" ) ) ]]; then
+        echo "Usage: dev-browser.sh [--context <name>] --state save <name> [--origin <url>]" >&2
+        echo "       dev-browser.sh [--context <name>] --state load <name>" >&2
+        echo "       dev-browser.sh --state list" >&2
+        return 1
+    fi
+
+    start_server || return 1
+    local context_name="${BROWSER_CONTEXT:-default}"
+    local base_url="http://localhost:${SERVER_PORT}"
+    local result
+
+    case "$action" in
+        list)
+            result=$(curl -s "$base_url/states")
+            if [[ "$(echo "$result" | jq '.states | length')" -eq 0 ]]; then
+                echo "No saved states in $(echo "$result" | jq -r '.dir')"
+            else
+                echo "=== SAVED STATES ($(echo "$result" | jq -r '.dir')) ==="
+                echo "$result" | jq -r '.states[] | "  - " + .'
+            fi
+            return 0
+            ;;
+        save)
+            result=$(curl -s -X POST "$base_url/contexts/$(urlencode "$context_name")/state/export" \
+                -H 'Content-Type: application/json' \
+                -d "$(jq -n --arg name "$state_name" --arg origin "$origin" \
+                    '{name: $name} + (if $origin != "" then {origin: $origin} else {} end)')")
+            ;;
+        load)
+            result=$(curl -s -X POST "$base_url/contexts/$(urlencode "$context_name")/state/import" \
+                -H 'Content-Type: application/json' \
+                -d "$(jq -n --arg name "$state_name" '{name: $name}')")
+            ;;
+    esac
+
+    if [[ -n "$(echo "$result" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+        echo "ERROR: $(echo "$result" | jq -r '.error')" >&2
+        return 1
+    fi
+    if [[ "$action" == "save" ]]; then
+        echo "$result" | jq -r '"State saved: \(.path) (\(.cookies) cookies, \(.origins) origins)"'
+    else
+        echo "$result" | jq -r '"State loaded into context '"'${context_name}'"': \(.cookies) cookies, \(.origins) origins (saved \(.savedAt))"'
+        echo "Navigate now - storage is applied on the next page load."
+    fi
+}
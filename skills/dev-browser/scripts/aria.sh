@@ -0,0 +1,31 @@
+#!/bin/bash
+# Fast path: ARIA snapshot via server endpoint (no tsx)
+PREFIX="${PROJECT_PREFIX:-dev}"
+PAGE="${PAGE_NAME:-main}"
+PAGE_ID="${PREFIX}-${PAGE}"
+PORT="${SERVER_PORT}"
+
+# Ensure page exists (POST /pages creates if missing, in BROWSER_CONTEXT when set)
+page_body=$(jq -nc --arg name "$PAGE_ID" --arg project "$PREFIX" --arg ctx "${BROWSER_CONTEXT:-}" '{name: $name, project: $project} + (if $ctx != "" then {context: $ctx} else {} end)')
+created=$(curl -s -X POST "http://localhost:${PORT}/pages" -H 'Content-Type: application/json' -d "$page_body")
+if [[ -n "$(echo "$created" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+    echo "$created" | jq . >&2
+    exit 1
+fi
+
+result=$(curl -s "http://localhost:${PORT}/pages/${PAGE_ID}/snapshot")
+
+status=$(echo "$result" | jq -r '.error // empty' 2>/dev/null)
+if [[ -n "$status" ]]; then
+    echo "$result" | jq . >&2
+    exit 1
+fi
+
+snapshot=$(echo "$result" | jq -r '.snapshot // empty')
+if [[ -z "$snapshot" ]]; then
+    echo "Could not get ARIA snapshot. Navigate first: goto <url>" >&2
+    exit 1
+fi
+
+# Output YAML snapshot with refs
+echo "$snapshot"
@@ -1,139 +1,166 @@
-// Chain multiple actions: goto | click | fill | wait
+// Chain multiple actions: goto | click | fill | select | wait | press | eval | screenshot
 // Usage: --chain "goto https://site.com | click Login | fill email=test@x.com"
-import { discoverElements, printDiscovery } from "@/discover.js";
+// Runs server-side via POST /pages/:name/actions (single round trip, no CDP connection)
+// CHAIN_RECORD=1 (--chain "..." --record) screencasts the chain to a video
+import { printDiscovery } from "@/discover.js";
+import type { ActionsResponse, BatchAction, ScreencastStopResponse } from "@/types.js";
 
 const chainStr = process.env.SCRIPT_ARGS || "";
 if (!chainStr) {
   console.error("Usage: dev-browser.sh --chain 'goto URL | click BUTTON | fill FIELD=VALUE'");
-  console.error("Commands: goto <url>, click <text|selector>, fill <name>=<value>, wait <selector|text>");
+  console.error(
+    "Commands: goto <url>, click <ref|text|selector>, fill <field>=<value>, select <field>=<value>,"
+  );
+  console.error("          wait <selector|text|ms>, press <key>, eval <js>, screenshot [path]");
   process.exit(1);
 }
 
-const client = await connect();
-const page = await client.page("main");
+const pageName = process.env.PAGE_NAME || "main";
+const prefix = process.env.PROJECT_PREFIX || "dev";
+const serverUrl = `http://localhost:${process.env.SERVER_PORT || "9222"}`;
 
-// Parse commands (split by |, trim each)
-const commands = chainStr.split("|").map(c => c.trim()).filter(c => c);
+// Split "field=value" arguments for fill/select
+function splitAssignment(action: string, arg: string): [string, string] {
+  const eqIdx = arg.indexOf("=");
+  if (eqIdx === -1) {
+    throw new Error(`${action} requires field=value format`);
+  }
+  return [arg.substring(0, eqIdx), arg.substring(eqIdx + 1)];
+}
 
-for (let i = 0; i < commands.length; i++) {
-  const cmd = commands[i];
-  const [action, ...argParts] = cmd.split(/\s+/);
-  const arg = argParts.join(" ");
+// Parse commands (split by |, trim each)
+const commands = chainStr
+  .split("|")
+  .map((c) => c.trim())
+  .filter((c) => c);
+const actions: BatchAction[] = [];
 
-  console.log(`\n[${i + 1}/${commands.length}] ${action} ${arg}`);
+try {
+  for (const cmd of commands) {
+    const [action = "", ...argParts] = cmd.split(/\s+/);
+    const arg = argParts.join(" ");
 
-  try {
     switch (action.toLowerCase()) {
-      case "goto": {
-        let url = arg;
-        if (process.env.CACHEBUST === "1" && url && url !== "about:blank") {
-          const sep = url.includes("?") ? "&" : "?";
-          url = `${url}${sep}v=${Date.now()}`;
-        }
-        await page.goto(url);
-        await waitForPageLoad(page);
-        console.log("  → Navigated to:", page.url());
+      case "goto":
+        actions.push({ action: "goto", url: arg, cachebust: process.env.CACHEBUST === "1" });
         break;
-      }
-
-      case "click": {
-        // Check existence first, then click - fail fast
-        const btn = page.getByRole("button", { name: arg });
-        const link = page.getByRole("link", { name: arg });
-        const sel = page.locator(arg).first();
-
-        if (await btn.count() > 0) {
-          await btn.click();
-          console.log("  → Clicked button:", arg);
-        } else if (await link.count() > 0) {
-          await link.click();
-          console.log("  → Clicked link:", arg);
-        } else if (await sel.count() > 0) {
-          await sel.click();
-          console.log("  → Clicked selector:", arg);
-        } else {
-          throw new Error(`Element not found: ${arg}`);
-        }
-        await waitForPageLoad(page);
+      case "click":
+        actions.push({ action: "click", target: arg });
         break;
-      }
-
       case "fill": {
-        const eqIdx = arg.indexOf("=");
-        if (eqIdx === -1) {
-          throw new Error("fill requires field=value format");
-        }
-        const field = arg.substring(0, eqIdx);
-        const value = arg.substring(eqIdx + 1);
-
-        // Try name, id, placeholder, label
-        let filled = false;
-        for (const sel of [`[name="${field}"]`, `#${field}`, `[placeholder*="${field}" i]`]) {
-          try {
-            const el = page.locator(sel).first();
-            if (await el.count() > 0) {
-              await el.fill(value);
-              console.log(`  → Filled ${sel}:`, value);
-              filled = true;
-              break;
-            }
-          } catch {}
-        }
-        if (!filled) {
-          try {
-            await page.getByLabel(field).fill(value);
-            console.log(`  → Filled label "${field}":`, value);
-            filled = true;
-          } catch {}
-        }
-        if (!filled) {
-          throw new Error(`Field not found: ${field}`);
-        }
+        const [target, value] = splitAssignment("fill", arg);
+        actions.push({ action: "fill", target, value });
         break;
       }
-
-      case "wait": {
-        try {
-          await page.locator(arg).first().waitFor({ timeout: 15000 });
-          console.log("  → Found selector:", arg);
-        } catch {
-          await page.getByText(arg).first().waitFor({ timeout: 15000 });
-          console.log("  → Found text:", arg);
-        }
+      case "select": {
+        const [target, value] = splitAssignment("select", arg);
+        actions.push({ action: "select", target, value });
         break;
       }
-
-      case "screenshot": {
-        const path = arg || `/tmp/chain-${Date.now()}.png`;
-        await page.screenshot({ path, fullPage: true });
-        console.log("  → Screenshot saved:", path);
+      case "wait":
+        actions.push(
+          /^\d+$/.test(arg) ? { action: "wait", ms: Number(arg) } : { action: "wait", target: arg }
+        );
+        break;
+      case "press":
+        actions.push({ action: "press", key: arg });
+        break;
+      case "eval":
+        actions.push({ action: "evaluate", code: arg });
+        break;
+      case "screenshot":
+        // No path: saved to the project's screenshots dir on the server
+        actions.push({ action: "screenshot", path: arg || undefined });
         break;
-      }
-
       default:
-        throw new Error(`Unknown action: ${action}. Use: goto, click, fill, wait, screenshot`);
+        throw new Error(
+          `Unknown action: ${action}. Use: goto, click, fill, select, wait, press, eval, screenshot`
+        );
     }
+  }
+} catch (err: any) {
+  console.error(`✗ ${err.message}`);
+  process.exit(1);
+}
+
+// Resolve page name (prefixed first, raw name for cross-project access), create if missing
+const listRes = await fetch(`${serverUrl}/pages`);
+const { pages } = (await listRes.json()) as { pages: string[] };
+let targetName = `${prefix}-${pageName}`;
+if (!pages.includes(targetName) && pages.includes(pageName)) {
+  targetName = pageName;
+}
+const pageRes = await fetch(`${serverUrl}/pages`, {
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify({
+    name: targetName,
+    project: prefix,
+    context: process.env.BROWSER_CONTEXT || undefined,
+  }),
+});
+if (!pageRes.ok) {
+  console.error(`✗ ${((await pageRes.json()) as { error?: string }).error}`);
+  process.exit(1);
+}
 
+const pageUrl = `${serverUrl}/pages/${encodeURIComponent(targetName)}`;
+const record = process.env.CHAIN_RECORD === "1";
+if (record) {
+  const startRes = await fetch(`${pageUrl}/screencast/start`, { method: "POST" });
+  if (!startRes.ok) {
+    console.error(`✗ ${((await startRes.json()) as { error?: string }).error}`);
+    process.exit(1);
+  }
+}
+
+const res = await fetch(`${pageUrl}/actions`, {
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify({ actions, onError: "stop", discoverEach: true }),
+});
+const report = (await res.json()) as ActionsResponse & { error?: string };
+
+if (record) {
+  const stopRes = await fetch(`${pageUrl}/screencast/stop`, { method: "POST" });
+  const video = (await stopRes.json()) as ScreencastStopResponse & { error?: string };
+  if (stopRes.ok) {
+    console.log(`Video: ${video.path}${video.format === "frames" ? "/index.html" : ""}`);
+  } else {
+    console.error(`✗ Video not saved: ${video.error}`);
+  }
+}
+
+if (!res.ok) {
+  console.error(`✗ Chain failed: ${report.error}`);
+  process.exit(1);
+}
+
+for (const step of report.steps) {
+  console.log(`\n[${step.index + 1}/${commands.length}] ${commands[step.index]}`);
+  if (step.status === "passed") {
+    const detail = step.result === undefined ? "" : ` ${JSON.stringify(step.result)}`;
+    console.log(`  → OK (${step.duration}ms)${detail}`);
     // Show discovery after each action
-    const elements = await discoverElements(page);
-    if (elements.inputs?.length || elements.buttons?.length) {
+    const elements = step.elements;
+    if (elements?.inputs?.length || elements?.buttons?.length) {
       const parts: string[] = [];
-      if (elements.inputs?.length) parts.push(`inputs: ${elements.inputs.map(i => i.name).join(", ")}`);
-      if (elements.buttons?.length) parts.push(`buttons: ${elements.buttons.map(b => `"${b.text}"`).join(", ")}`);
+      if (elements.inputs?.length) parts.push(`inputs: ${elements.inputs.map((i) => i.name).join(", ")}`);
+      if (elements.buttons?.length) parts.push(`buttons: ${elements.buttons.map((b) => `"${b.text}"`).join(", ")}`);
       console.log("  →", parts.join(" | "));
     }
-
-  } catch (err: any) {
-    console.error(`  ✗ FAILED: ${err.message}`);
-    // Show what's available for debugging
-    const elements = await discoverElements(page);
-    printDiscovery(elements, "Available elements");
-    await client.disconnect();
-    process.exit(1);
+  } else if (step.status === "failed") {
+    console.error(`  ✗ FAILED: ${step.error}`);
+  } else {
+    console.log("  - skipped");
   }
 }
 
-console.log("\n✓ Chain completed successfully");
-console.log("Final URL:", page.url());
+if (!report.success) {
+  // Show what's available for debugging
+  if (report.elements) printDiscovery(report.elements, "Available elements");
+  process.exit(1);
+}
 
-await client.disconnect();
+console.log(`\n✓ Chain completed successfully (${report.duration}ms)`);
+console.log("Final URL:", report.url);
@@ -15,8 +15,13 @@ CACHEBUST="${CACHEBUST:-0}"
 cb="false"
 [[ "$CACHEBUST" == "1" ]] && cb="true"
 
-# Ensure page exists (POST /pages creates if missing)
-curl -s -X POST "http://localhost:${PORT}/pages" -H 'Content-Type: application/json' -d "{\"name\":\"${PAGE_ID}\"}" >/dev/null
+# Ensure page exists (POST /pages creates if missing, in BROWSER_CONTEXT when set)
+page_body=$(jq -nc --arg name "$PAGE_ID" --arg project "$PREFIX" --arg ctx "${BROWSER_CONTEXT:-}" '{name: $name, project: $project} + (if $ctx != "" then {context: $ctx} else {} end)')
+created=$(curl -s -X POST "http://localhost:${PORT}/pages" -H 'Content-Type: application/json' -d "$page_body")
+if [[ -n "$(echo "$created" | jq -r '.error // empty' 2>/dev/null)" ]]; then
+    echo "$created" | jq . >&2
+    exit 1
+fi
 
 body=$(jq -nc --arg url "$url" --argjson cachebust "$cb" '{url: $url, cachebust: $cachebust}')
 result=$(curl -s -X POST "http://localhost:${PORT}/pages/${PAGE_ID}/goto" -H 'Content-Type: application/json' -d "$body")
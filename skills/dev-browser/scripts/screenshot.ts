@@ -1,6 +1,9 @@
 // Take screenshot using server's Page object (avoids stale CDP)
 // Usage: dev-browser.sh --screenshot [page] [filename]
 //   Set SCROLL_TO='.selector' or SCROLL_TO=3000 for viewport-only screenshot after scrolling
+//   Set SHOT_TARGET (CSS selector or snapshot ref) or SHOT_CLIP='x,y,w,h' to capture part of the page,
+//   SHOT_PADDING, SHOT_FORMAT (png|jpeg|webp) and SHOT_QUALITY to tune the image
+//   Set SHOT_STABLE=1 to freeze animations and SHOT_MASK (newline-separated selectors/refs) to mask regions
 import * as path from "path";
 import { mkdirSync } from "fs";
 
@@ -9,10 +12,26 @@ const pageName = process.env.PAGE_NAME || "main";
 const prefix = process.env.PROJECT_PREFIX || "dev";
 const serverPort = process.env.SERVER_PORT || "9222";
 const scrollTo = process.env.SCROLL_TO || "";
+const target = process.env.SHOT_TARGET || "";
+const clipArg = process.env.SHOT_CLIP || "";
+const padding = process.env.SHOT_PADDING ? Number(process.env.SHOT_PADDING) : undefined;
+const format = (process.env.SHOT_FORMAT || "png") as "png" | "jpeg" | "webp";
+const quality = process.env.SHOT_QUALITY ? Number(process.env.SHOT_QUALITY) : undefined;
+const stable = process.env.SHOT_STABLE === "1";
+const mask = (process.env.SHOT_MASK || "").split("\n").filter(Boolean);
+// Larger images are rejected by image-reading tools - the server downscales past this
+const maxDim = Number(process.env.MAX_SCREENSHOT_DIM || 7500);
+
+let clip: { x: number; y: number; width: number; height: number } | undefined;
+if (clipArg) {
+    const [x, y, width, height] = clipArg.split(",").map(Number);
+    clip = { x: x!, y: y!, width: width!, height: height! };
+}
 
 // Determine screenshot path
 const screenshotsDir = process.env.SCREENSHOTS_DIR || path.join(process.env.HOME || "/tmp", "Tools/screenshots");
-const filename = args.trim() || `screenshot-${Date.now()}.png`;
+const ext = format === "jpeg" ? "jpg" : format;
+const filename = args.trim() || `screenshot-${Date.now()}.${ext}`;
 const screenshotPath = path.join(screenshotsDir, path.basename(filename));
 
 mkdirSync(screenshotsDir, { recursive: true });
@@ -59,10 +78,23 @@ if (scrollTo) {
 const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(targetName)}/screenshot`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path: screenshotPath, fullPage }),
+    body: JSON.stringify({
+        path: screenshotPath,
+        fullPage,
+        // Snapshot refs look like e12 - anything else is a CSS selector
+        ...(target ? (/^e\d+$/.test(target) ? { ref: target } : { selector: target }) : {}),
+        clip,
+        padding,
+        format,
+        quality,
+        stable,
+        mask: mask.length ? mask : undefined,
+        maxWidth: maxDim,
+        maxHeight: maxDim,
+    }),
 });
 
-const result = await res.json() as { success?: boolean; path?: string; url?: string; viewport?: string; error?: string };
+const result = await res.json() as { success?: boolean; path?: string; url?: string; viewport?: string; width?: number; height?: number; resized?: boolean; error?: string };
 
 if (result.success) {
     // Get viewport via evaluate endpoint
@@ -79,6 +111,7 @@ if (result.success) {
         } catch {}
     }
     console.log(`Page URL: ${result.url} | Alias: ${targetName} | Viewport: ${vpStr}`);
+    if (result.resized) console.log(`Resized to ${result.width}x${result.height} (max ${maxDim}px)`);
     console.log(`Screenshot saved: ${result.path}`);
 } else {
     console.error(`Screenshot failed: ${result.error}`);
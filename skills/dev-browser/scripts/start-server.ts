@@ -173,6 +173,7 @@ try {
     headless,
     profileDir,
     browserMode,
+    tmpDir,
   });
 } catch (err) {
   logCrash(`Server failed to start: ${err}`);
@@ -0,0 +1,117 @@
+// Visual regression baselines - snapshot, compare and list, using the server's Page screenshots
+// Usage: dev-browser.sh --snap [page] | --diff [page] | --baselines [--all]
+//   Env: VD_MODE (snap|diff|list), PAGE_NAME, PROJECT_PREFIX, SERVER_PORT, DEV_BROWSER_BASELINES
+//   VD_NAME (baseline name), VD_THRESHOLD, VD_MAX_DIFF (percent), VD_MASK (newline-separated),
+//   VD_VIEWPORT_ONLY=1, VD_JSON=1, VD_ALL=1
+import {
+  compareToBaseline,
+  defaultBaselinesDir,
+  listBaselines,
+  saveBaseline,
+  type BaselineKey,
+} from "@/visual-diff/index.js";
+
+const mode = process.env.VD_MODE || "diff";
+const pageName = process.env.PAGE_NAME || "main";
+const prefix = process.env.PROJECT_PREFIX || "dev";
+const serverPort = process.env.SERVER_PORT || "9222";
+const root = defaultBaselinesDir();
+const json = process.env.VD_JSON === "1";
+const mask = (process.env.VD_MASK || "").split("\n").filter(Boolean);
+const serverUrl = `http://localhost:${serverPort}`;
+
+if (mode === "list") {
+  const baselines = listBaselines(root, process.env.VD_ALL === "1" ? undefined : prefix);
+  if (json) {
+    console.log(JSON.stringify(baselines, null, 2));
+  } else if (baselines.length === 0) {
+    console.log(
+      `No baselines in ${root}${process.env.VD_ALL === "1" ? "" : ` for project "${prefix}"`}`
+    );
+  } else {
+    for (const b of baselines) {
+      console.log(`${b.project}/${b.page}  ${b.viewport}  ${b.name}  ${b.updatedAt}  ${b.path}`);
+    }
+  }
+  process.exit(0);
+}
+
+// Check which page name exists
+const listRes = await fetch(`${serverUrl}/pages`);
+const { pages } = (await listRes.json()) as { pages: string[] };
+let targetName = `${prefix}-${pageName}`;
+if (!pages.includes(targetName) && pages.includes(pageName)) {
+  targetName = pageName;
+}
+if (!pages.includes(targetName)) {
+  console.error(`Page '${pageName}' not found (full name: ${prefix}-${pageName})`);
+  process.exit(1);
+}
+
+// Stable capture so animations, carets and late fonts don't show up as changes
+const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(targetName)}/screenshot`, {
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify({
+    base64: true,
+    stable: true,
+    fullPage: process.env.VD_VIEWPORT_ONLY !== "1",
+    mask: mask.length ? mask : undefined,
+  }),
+});
+const shot = (await res.json()) as {
+  success?: boolean;
+  base64?: string;
+  viewport?: string;
+  url?: string;
+  error?: string;
+};
+if (!shot.success || !shot.base64) {
+  console.error(`Screenshot failed: ${shot.error}`);
+  process.exit(1);
+}
+
+const png = Buffer.from(shot.base64, "base64");
+const key: BaselineKey = {
+  project: prefix,
+  page: pageName,
+  viewport: shot.viewport || "unknown",
+  name: process.env.VD_NAME || undefined,
+};
+
+if (mode === "snap") {
+  const path = saveBaseline(root, key, png);
+  console.log(`Baseline saved: ${path}`);
+  console.log(`Page URL: ${shot.url} | Viewport: ${key.viewport}`);
+  process.exit(0);
+}
+
+try {
+  const report = compareToBaseline(root, key, png, {
+    threshold: process.env.VD_THRESHOLD ? Number(process.env.VD_THRESHOLD) : undefined,
+    maxDiffPercent: process.env.VD_MAX_DIFF ? Number(process.env.VD_MAX_DIFF) : undefined,
+  });
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(
+      `${report.match ? "✅ MATCH" : "❌ CHANGED"}  ${report.page} @ ${report.viewport}: ${report.diffPixels} px differ (${report.diffPercent}%, max ${report.maxDiffPercent}%)`
+    );
+    if (report.sizeMismatch)
+      console.log(`   Size changed: now ${report.width}x${report.height} canvas`);
+    if (report.antialiasedPixels)
+      console.log(`   Ignored ${report.antialiasedPixels} anti-aliased px`);
+    for (const r of report.regions.slice(0, 10)) {
+      console.log(`   Region ${r.width}x${r.height} at (${r.x},${r.y}): ${r.pixels} px`);
+    }
+    if (report.regions.length > 10)
+      console.log(`   ... ${report.regions.length - 10} more regions`);
+    console.log(`Diff image: ${report.diff}`);
+    console.log(`Actual: ${report.actual}`);
+  }
+  process.exit(report.match ? 0 : 2);
+} catch (err) {
+  console.error(err instanceof Error ? err.message : String(err));
+  console.error(`Save one first with: dev-browser.sh --snap ${pageName}`);
+  process.exit(1);
+}
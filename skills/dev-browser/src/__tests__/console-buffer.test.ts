@@ -0,0 +1,92 @@
+import { EventEmitter } from "events";
+import type { Page } from "playwright";
+import { describe, test, expect } from "vitest";
+import { attachConsoleCapture, createConsoleBuffer } from "../console-buffer";
+import type { ConsoleEntry } from "../types";
+
+function log(text: string, level = "log") {
+  return { source: "console" as const, level, text };
+}
+
+describe("createConsoleBuffer", () => {
+  test("assigns increasing ids and tracks the newest", () => {
+    const buffer = createConsoleBuffer();
+    buffer.push(log("a"));
+    const second = buffer.push(log("b"));
+
+    expect(second.id).toBe(2);
+    expect(buffer.lastId).toBe(2);
+    expect(buffer.query().map((e) => e.text)).toEqual(["a", "b"]);
+  });
+
+  test("evicts the oldest entries past capacity and counts them", () => {
+    const buffer = createConsoleBuffer(3);
+    for (const text of ["a", "b", "c", "d", "e"]) buffer.push(log(text));
+
+    expect(buffer.query().map((e) => e.text)).toEqual(["c", "d", "e"]);
+    expect(buffer.dropped).toBe(2);
+    expect(buffer.lastId).toBe(5);
+  });
+
+  test("returns only entries newer than since", () => {
+    const buffer = createConsoleBuffer();
+    for (const text of ["a", "b", "c"]) buffer.push(log(text));
+
+    expect(buffer.query({ since: 1 }).map((e) => e.text)).toEqual(["b", "c"]);
+    expect(buffer.query({ since: 3 })).toEqual([]);
+  });
+
+  test("filters by level, accepting warn for warning", () => {
+    const buffer = createConsoleBuffer();
+    buffer.push(log("info", "info"));
+    buffer.push(log("careful", "warning"));
+    buffer.push(log("broken", "error"));
+
+    expect(buffer.query({ levels: ["warn", "error"] }).map((e) => e.text)).toEqual([
+      "careful",
+      "broken",
+    ]);
+    expect(buffer.query({ levels: ["error"], since: 3 })).toEqual([]);
+  });
+});
+
+describe("attachConsoleCapture", () => {
+  test("records page errors with the first stack frame as location", () => {
+    const page = new EventEmitter();
+    const buffer = createConsoleBuffer();
+    const seen: ConsoleEntry[] = [];
+    attachConsoleCapture(page as unknown as Page, buffer, (e) => seen.push(e));
+
+    const err = new Error("boom");
+    err.stack = "Error: boom\n    at run (https://site.test/app.js:10:5)";
+    page.emit("pageerror", err);
+
+    expect(buffer.query()).toEqual([
+      expect.objectContaining({
+        source: "pageerror",
+        level: "error",
+        text: "boom",
+        location: { url: "https://site.test/app.js", line: 10, column: 5 },
+      }),
+    ]);
+    expect(seen).toHaveLength(1);
+  });
+
+  test("records failed requests as errors", () => {
+    const page = new EventEmitter();
+    const buffer = createConsoleBuffer();
+    attachConsoleCapture(page as unknown as Page, buffer);
+
+    page.emit("requestfailed", {
+      method: () => "GET",
+      url: () => "https://site.test/api",
+      failure: () => ({ errorText: "net::ERR_FAILED" }),
+    });
+
+    expect(buffer.query()[0]).toMatchObject({
+      source: "requestfailed",
+      level: "error",
+      text: "GET https://site.test/api - net::ERR_FAILED",
+    });
+  });
+});
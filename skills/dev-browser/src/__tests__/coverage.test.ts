@@ -0,0 +1,126 @@
+import { EventEmitter } from "events";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Page } from "playwright";
+import { afterEach, beforeEach, describe, test, expect } from "vitest";
+import { startCoverage } from "../coverage";
+
+interface JsEntry {
+  url: string;
+  source?: string;
+  functions: Array<{ ranges: Array<{ startOffset: number; endOffset: number; count: number }> }>;
+}
+
+interface CssEntry {
+  url: string;
+  text?: string;
+  ranges: Array<{ start: number; end: number }>;
+}
+
+// Page whose coverage API hands back canned V8/CSS entries
+function fakePage(js: JsEntry[], css: CssEntry[] = []) {
+  const page = Object.assign(new EventEmitter(), {
+    url: () => "https://site.test/",
+    mainFrame: () => null,
+    coverage: {
+      startJSCoverage: async () => {},
+      startCSSCoverage: async () => {},
+      stopJSCoverage: async () => js,
+      stopCSSCoverage: async () => css,
+    },
+  });
+  return page as unknown as Page;
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "coverage-test-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("startCoverage", () => {
+  test("nested unexecuted block ranges win over the enclosing function", async () => {
+    const source = "function a() { if (x) { never(); } }";
+    const page = fakePage([
+      {
+        url: "https://site.test/app.js",
+        source,
+        functions: [
+          { ranges: [{ startOffset: 0, endOffset: source.length, count: 1 }] },
+          { ranges: [{ startOffset: 22, endOffset: 34, count: 0 }] },
+        ],
+      },
+    ]);
+
+    const report = await (await startCoverage(page)).stop();
+    const [file] = report.files;
+
+    expect(file).toMatchObject({ type: "js", totalBytes: source.length, unusedBytes: 12 });
+    expect(file!.unusedRanges).toEqual([{ start: 22, end: 34 }]);
+    expect(report.js.usedPercent).toBe(
+      Math.round(((source.length - 12) / source.length) * 1000) / 10
+    );
+  });
+
+  test("merges the same file loaded on several pages", async () => {
+    const source = "0123456789";
+    const page = fakePage([
+      {
+        url: "https://site.test/lib.js",
+        source,
+        functions: [{ ranges: [{ startOffset: 0, endOffset: 4, count: 1 }] }],
+      },
+      {
+        url: "https://site.test/lib.js",
+        source,
+        functions: [{ ranges: [{ startOffset: 6, endOffset: 10, count: 1 }] }],
+      },
+    ]);
+
+    const report = await (await startCoverage(page)).stop();
+
+    expect(report.files).toHaveLength(1);
+    expect(report.files[0]!.usedBytes).toBe(8);
+    expect(report.files[0]!.unusedRanges).toEqual([{ start: 4, end: 6 }]);
+  });
+
+  test("counts CSS rule ranges as used and skips extension scripts", async () => {
+    const page = fakePage(
+      [{ url: "chrome-extension://abc/inject.js", source: "x()", functions: [] }],
+      [{ url: "https://site.test/app.css", text: "a{}b{}c{}", ranges: [{ start: 3, end: 6 }] }]
+    );
+
+    const report = await (await startCoverage(page)).stop();
+
+    expect(report.files.map((f) => f.url)).toEqual(["https://site.test/app.css"]);
+    expect(report.css).toEqual({ totalBytes: 9, usedBytes: 3, unusedBytes: 6, usedPercent: 33.3 });
+    expect(report.js.totalBytes).toBe(0);
+  });
+
+  test("writes a JSON report when asked", async () => {
+    const page = fakePage([
+      {
+        url: "https://site.test/app.js",
+        source: "go()",
+        functions: [{ ranges: [{ startOffset: 0, endOffset: 4, count: 1 }] }],
+      },
+    ]);
+    const path = join(dir, "nested", "coverage.json");
+
+    const report = await (await startCoverage(page)).stop({ report: "json", path });
+
+    expect(report.report).toBe(path);
+    expect(JSON.parse(readFileSync(path, "utf-8")).files[0].usedPercent).toBe(100);
+  });
+
+  test("refuses to start with nothing to collect", async () => {
+    await expect(startCoverage(fakePage([]), { js: false, css: false })).rejects.toThrow(
+      "Nothing to collect"
+    );
+  });
+});
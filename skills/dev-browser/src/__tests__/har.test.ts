@@ -0,0 +1,180 @@
+import { EventEmitter } from "events";
+import type { Page, Request } from "playwright";
+import { describe, test, expect } from "vitest";
+import { startHarRecording } from "../har";
+
+function fakePage() {
+  const page = Object.assign(new EventEmitter(), {
+    title: async () => "Shop",
+    url: () => "https://shop.test/",
+  });
+  return page;
+}
+
+interface FakeRequestOptions {
+  url: string;
+  startTime: number;
+  status?: number;
+  body?: Buffer;
+  contentType?: string;
+  failure?: string;
+  postData?: string;
+}
+
+// Timing marks are relative to startTime, -1 when the phase didn't happen (reused connection)
+function fakeRequest(opts: FakeRequestOptions): Request {
+  const headers = { "content-type": opts.contentType ?? "text/html" };
+  const response =
+    opts.status === undefined
+      ? null
+      : {
+          status: () => opts.status,
+          statusText: () => "OK",
+          headersArray: async () => [{ name: "content-type", value: headers["content-type"] }],
+          headerValue: async (name: string) => headers[name as keyof typeof headers] ?? null,
+          body: async () => opts.body ?? Buffer.from(""),
+          serverAddr: async () => ({ ipAddress: "10.0.0.1", port: 443 }),
+        };
+  return {
+    url: () => opts.url,
+    method: () => (opts.postData ? "POST" : "GET"),
+    postData: () => opts.postData ?? null,
+    headerValue: async () => "application/json",
+    headersArray: async () => [{ name: "accept", value: "*/*" }],
+    resourceType: () => "document",
+    failure: () => (opts.failure ? { errorText: opts.failure } : null),
+    response: async () => response,
+    sizes: async () => ({
+      requestHeadersSize: 100,
+      requestBodySize: opts.postData?.length ?? 0,
+      responseHeadersSize: 200,
+      responseBodySize: opts.body?.length ?? 0,
+    }),
+    timing: () => ({
+      startTime: opts.startTime,
+      domainLookupStart: -1,
+      domainLookupEnd: -1,
+      connectStart: 1,
+      secureConnectionStart: 3,
+      connectEnd: 6,
+      requestStart: 6,
+      responseStart: 26,
+      responseEnd: 30,
+    }),
+  } as unknown as Request;
+}
+
+describe("startHarRecording", () => {
+  test("builds HAR 1.2 entries with timings from the request", async () => {
+    const page = fakePage();
+    const recording = startHarRecording(page as unknown as Page);
+
+    page.emit(
+      "requestfinished",
+      fakeRequest({ url: "https://shop.test/?q=shoes&page=2", startTime: 1000, status: 200 })
+    );
+    const har = await recording.stop();
+
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.pages[0]!.title).toBe("Shop");
+    const [entry] = har.log.entries;
+    expect(entry!.request.queryString).toEqual([
+      { name: "q", value: "shoes" },
+      { name: "page", value: "2" },
+    ]);
+    expect(entry!.timings).toEqual({
+      blocked: -1,
+      dns: -1,
+      connect: 5,
+      ssl: 3,
+      send: 0,
+      wait: 20,
+      receive: 4,
+    });
+    expect(entry!.time).toBe(32);
+    expect(entry!.serverIPAddress).toBe("10.0.0.1");
+    expect(entry!.response.content).toEqual({ size: -1, mimeType: "text/html" });
+  });
+
+  test("embeds text bodies and base64-encodes binary ones", async () => {
+    const page = fakePage();
+    const recording = startHarRecording(page as unknown as Page, { bodies: true });
+
+    page.emit(
+      "requestfinished",
+      fakeRequest({
+        url: "https://shop.test/api",
+        startTime: 1000,
+        status: 200,
+        contentType: "application/json",
+        body: Buffer.from('{"ok":true}'),
+      })
+    );
+    page.emit(
+      "requestfinished",
+      fakeRequest({
+        url: "https://shop.test/logo.png",
+        startTime: 2000,
+        status: 200,
+        contentType: "image/png",
+        body: Buffer.from([0x89, 0x50]),
+      })
+    );
+    const [json, png] = (await recording.stop()).log.entries;
+
+    expect(json!.response.content.text).toBe('{"ok":true}');
+    expect(png!.response.content).toMatchObject({ text: "iVA=", encoding: "base64", size: 2 });
+  });
+
+  test("omits bodies over the size limit", async () => {
+    const page = fakePage();
+    const recording = startHarRecording(page as unknown as Page, { bodies: true, maxBodySize: 4 });
+
+    page.emit(
+      "requestfinished",
+      fakeRequest({
+        url: "https://shop.test/",
+        startTime: 1000,
+        status: 200,
+        body: Buffer.from("hello"),
+      })
+    );
+    const [entry] = (await recording.stop()).log.entries;
+
+    expect(entry!.response.content.text).toBeUndefined();
+    expect(entry!.response.content.comment).toContain("exceeds limit of 4");
+  });
+
+  test("records failed requests and sorts entries by start time", async () => {
+    const page = fakePage();
+    const recording = startHarRecording(page as unknown as Page);
+
+    page.emit(
+      "requestfinished",
+      fakeRequest({ url: "https://shop.test/b", startTime: 2000, status: 200 })
+    );
+    page.emit(
+      "requestfailed",
+      fakeRequest({ url: "https://shop.test/a", startTime: 1000, failure: "net::ERR_ABORTED" })
+    );
+    const har = await recording.stop();
+
+    expect(har.log.entries.map((e) => e.request.url)).toEqual([
+      "https://shop.test/a",
+      "https://shop.test/b",
+    ]);
+    expect(har.log.entries[0]).toMatchObject({
+      _failureText: "net::ERR_ABORTED",
+      response: { status: 0 },
+    });
+  });
+
+  test("stops listening once stopped", async () => {
+    const page = fakePage();
+    const recording = startHarRecording(page as unknown as Page);
+    await recording.stop();
+
+    expect(page.listenerCount("requestfinished")).toBe(0);
+    expect(page.listenerCount("requestfailed")).toBe(0);
+  });
+});
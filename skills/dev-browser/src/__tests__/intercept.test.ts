@@ -0,0 +1,118 @@
+import type { Page, Route } from "playwright";
+import { afterEach, beforeEach, describe, test, expect, vi } from "vitest";
+import { createRouteTable, validateRouteRule } from "../intercept";
+
+type RouteHandler = (route: Route) => Promise<void>;
+
+// Just enough of Page to register handlers and call them like Playwright would
+function fakePage() {
+  const handlers: RouteHandler[] = [];
+  const page = {
+    route: async (_url: string, handler: RouteHandler) => {
+      handlers.push(handler);
+    },
+    unroute: async (_url: string, handler: RouteHandler) => {
+      handlers.splice(handlers.indexOf(handler), 1);
+    },
+  } as unknown as Page;
+  return { page, handlers };
+}
+
+// Records how the request was settled - a stalled request settles nothing
+function fakeRoute(overrides: Partial<Record<"fetch" | "fallback", () => Promise<unknown>>> = {}) {
+  const settled: string[] = [];
+  const route = {
+    request: () => ({ allHeaders: async () => ({}) }),
+    fetch: overrides.fetch ?? (async () => ({ headers: () => ({}) })),
+    fulfill: async () => {
+      settled.push("fulfill");
+    },
+    continue: async () => {
+      settled.push("continue");
+    },
+    fallback: async () => {
+      if (overrides.fallback) await overrides.fallback();
+      settled.push("fallback");
+    },
+    abort: async () => {
+      settled.push("abort");
+    },
+  } as unknown as Route;
+  return { route, settled };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("validateRouteRule", () => {
+  test("requires a url and a known action", () => {
+    expect(validateRouteRule({ url: "", action: "abort" })).toContain("url");
+    expect(validateRouteRule({ url: "**/*", action: "drop" as "abort" })).toContain("action");
+    expect(validateRouteRule({ url: "**/*", action: "abort" })).toBeNull();
+  });
+
+  test("rejects several fulfill bodies and negative delays", () => {
+    expect(validateRouteRule({ url: "**/*", action: "fulfill", body: "x", json: {} })).toContain(
+      "only one of"
+    );
+    expect(validateRouteRule({ url: "**/*", action: "abort", delay: -1 })).toContain("delay");
+  });
+});
+
+describe("createRouteTable", () => {
+  test("a failing rule hands the request on instead of stalling it", async () => {
+    const { page, handlers } = fakePage();
+    const table = createRouteTable(page);
+    const rule = await table.add({
+      url: "**/api/*",
+      action: "continue",
+      responseHeaders: { "x-test": "1" },
+    });
+    const { route, settled } = fakeRoute({
+      fetch: async () => {
+        throw new Error("upstream unreachable");
+      },
+    });
+
+    await handlers[0]!(route);
+
+    expect(rule.hits).toBe(1);
+    expect(settled).toEqual(["fallback"]);
+  });
+
+  test("aborts the request when it can't be handed on", async () => {
+    const { page, handlers } = fakePage();
+    const table = createRouteTable(page);
+    await table.add({ url: "**/api/*", action: "continue", responseHeaders: {} });
+    const { route, settled } = fakeRoute({
+      fetch: async () => {
+        throw new Error("upstream unreachable");
+      },
+      fallback: async () => {
+        throw new Error("route already handled");
+      },
+    });
+
+    await handlers[0]!(route);
+
+    expect(settled).toEqual(["abort"]);
+  });
+
+  test("lists newest rules first and removes them by id", async () => {
+    const { page, handlers } = fakePage();
+    const table = createRouteTable(page);
+    const first = await table.add({ url: "**/a", action: "abort" });
+    const second = await table.add({ url: "**/b", action: "abort" });
+
+    expect(table.list().map((r) => r.id)).toEqual([second.id, first.id]);
+    expect(await table.remove(first.id)).toBe(true);
+    expect(await table.remove(first.id)).toBe(false);
+    expect(await table.clear()).toBe(1);
+    expect(handlers).toHaveLength(0);
+  });
+});
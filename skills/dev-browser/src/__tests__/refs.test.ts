@@ -0,0 +1,72 @@
+import type { Page } from "playwright";
+import { afterEach, describe, test, expect } from "vitest";
+import { isSnapshotRef, requireRef, resolveRef } from "../refs";
+
+// Runs the page function in Node against globalThis.__devBrowserRefs, returning a handle
+// that is an element for objects and a JSON value otherwise - like evaluateHandle would
+const page = {
+  evaluateHandle: async (fn: (arg: string) => unknown, arg: string) => {
+    const value = fn(arg);
+    return {
+      asElement: () => (typeof value === "object" ? value : null),
+      jsonValue: async () => value,
+      dispose: async () => {},
+    };
+  },
+} as unknown as Page;
+
+function setRefs(refs: Record<string, { isConnected: boolean }> | undefined): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (globalThis as any).__devBrowserRefs = refs;
+}
+
+afterEach(() => {
+  setRefs(undefined);
+});
+
+describe("isSnapshotRef", () => {
+  test("matches e<number> only", () => {
+    expect(isSnapshotRef("e12")).toBe(true);
+    expect(isSnapshotRef("e")).toBe(false);
+    expect(isSnapshotRef("E12")).toBe(false);
+    expect(isSnapshotRef("#e12")).toBe(false);
+    expect(isSnapshotRef("Submit")).toBe(false);
+  });
+});
+
+describe("resolveRef", () => {
+  test("returns the element for a live ref", async () => {
+    const element = { isConnected: true };
+    setRefs({ e1: element });
+
+    expect(await resolveRef(page, "e1")).toEqual({ element });
+  });
+
+  test("404 when no snapshot was taken", async () => {
+    const resolved = await resolveRef(page, "e1");
+
+    expect(resolved).toMatchObject({ status: 404 });
+    expect("error" in resolved && resolved.error).toContain("No snapshot refs");
+  });
+
+  test("404 for an unknown ref", async () => {
+    setRefs({ e1: { isConnected: true } });
+
+    const resolved = await resolveRef(page, "e9");
+
+    expect(resolved).toMatchObject({ status: 404 });
+    expect("stale" in resolved && resolved.stale).toBeFalsy();
+  });
+
+  test("409 stale for a detached element", async () => {
+    setRefs({ e1: { isConnected: false } });
+
+    expect(await resolveRef(page, "e1")).toMatchObject({ status: 409, stale: true });
+  });
+
+  test("requireRef throws the resolution error", async () => {
+    setRefs({ e1: { isConnected: false } });
+
+    await expect(requireRef(page, "e1")).rejects.toThrow("Ref 'e1' is stale");
+  });
+});
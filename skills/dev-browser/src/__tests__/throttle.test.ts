@@ -0,0 +1,51 @@
+import { describe, test, expect } from "vitest";
+import { resolveThrottle, THROTTLE_PRESETS } from "../throttle";
+
+describe("resolveThrottle", () => {
+  test("defaults to unthrottled", () => {
+    expect(resolveThrottle({})).toEqual({
+      latency: 0,
+      downloadKbps: -1,
+      uploadKbps: -1,
+      offline: false,
+      cpu: 1,
+    });
+  });
+
+  test("expands presets", () => {
+    expect(resolveThrottle({ preset: "slow-3g" })).toEqual({
+      ...THROTTLE_PRESETS["slow-3g"],
+      cpu: 1,
+    });
+    expect(resolveThrottle({ preset: "offline" })).toMatchObject({ offline: true });
+  });
+
+  test("custom values override the preset", () => {
+    expect(resolveThrottle({ preset: "4g", latency: 50, cpu: 4 })).toEqual({
+      latency: 50,
+      downloadKbps: 8100,
+      uploadKbps: 8100,
+      offline: false,
+      cpu: 4,
+    });
+  });
+
+  test("rejects unknown presets", () => {
+    expect(resolveThrottle({ preset: "5g" as "4g" })).toContain('Unknown preset "5g"');
+  });
+
+  test("rejects negative or non-numeric latency and cpu below 1", () => {
+    expect(resolveThrottle({ latency: -5 })).toContain("latency");
+    expect(resolveThrottle({ latency: NaN })).toContain("latency");
+    expect(resolveThrottle({ cpu: 0.5 })).toContain("cpu");
+  });
+
+  test("accepts -1 as unlimited throughput but no other negative value", () => {
+    expect(resolveThrottle({ downloadKbps: -1, uploadKbps: 0 })).toMatchObject({
+      downloadKbps: -1,
+      uploadKbps: 0,
+    });
+    expect(resolveThrottle({ downloadKbps: -2 })).toContain("downloadKbps");
+    expect(resolveThrottle({ uploadKbps: Infinity })).toContain("uploadKbps");
+  });
+});
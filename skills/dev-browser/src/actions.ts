@@ -0,0 +1,254 @@
+// Batch action runner - executes an ordered list of actions against a server-side Page
+// Used by POST /pages/:name/actions so a whole chain costs one HTTP round trip
+
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Page } from "playwright";
+import type { ActionsRequest, ActionsResponse, ActionStepResult, BatchAction } from "./types";
+import { discoverElements } from "./discover";
+import { isSnapshotRef, requireRef } from "./refs";
+
+export interface EvaluateResult {
+  success: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+// Evaluate a JS expression (or statement block) in the page, awaiting returned promises
+export async function evaluateCode(page: Page, code: string): Promise<EvaluateResult> {
+  return page.evaluate((js: string) => {
+    try {
+      const fn = new Function(`return (${js})`);
+      const res = fn();
+      if (res && typeof res.then === "function") {
+        return res.then((r: unknown) => ({ success: true, result: r }));
+      }
+      return { success: true, result: res };
+    } catch {
+      try {
+        const fn = new Function(js);
+        fn();
+        return { success: true, result: undefined };
+      } catch (e: unknown) {
+        return { success: false, error: e instanceof Error ? e.message : String(e) };
+      }
+    }
+  }, code);
+}
+
+async function runClick(page: Page, target: string): Promise<unknown> {
+  if (isSnapshotRef(target)) {
+    await (await requireRef(page, target)).click({ timeout: 5000 });
+    return { type: "ref" };
+  }
+
+  // Check existence first, then click - fail fast
+  const btn = page.getByRole("button", { name: target });
+  const link = page.getByRole("link", { name: target });
+  const sel = page.locator(target).first();
+
+  let type: string;
+  if ((await btn.count()) > 0) {
+    await btn.first().click({ timeout: 5000 });
+    type = "button";
+  } else if ((await link.count()) > 0) {
+    await link.first().click({ timeout: 5000 });
+    type = "link";
+  } else if ((await sel.count().catch(() => 0)) > 0) {
+    await sel.click({ timeout: 5000 });
+    type = "selector";
+  } else {
+    throw new Error(`Element not found: ${target}`);
+  }
+
+  try {
+    await page.waitForLoadState("domcontentloaded", { timeout: 5000 });
+  } catch {
+    // proceed
+  }
+  return { type, url: page.url() };
+}
+
+async function runFill(page: Page, target: string, value: string): Promise<unknown> {
+  if (isSnapshotRef(target)) {
+    await (await requireRef(page, target)).fill(value);
+    return { selector: `ref:${target}` };
+  }
+
+  const looksLikeSelector = /^[a-z]+\[|^\[|^#|^\./.test(target);
+  const selectors = looksLikeSelector ? [target] : [];
+  selectors.push(`[name="${target}"]`, `#${target}`, `[placeholder*="${target}" i]`);
+
+  for (const sel of selectors) {
+    try {
+      const el = page.locator(sel).first();
+      if ((await el.count()) > 0) {
+        await el.fill(value);
+        return { selector: sel };
+      }
+    } catch {
+      // Invalid selector for this target, try next
+    }
+  }
+
+  try {
+    await page.getByLabel(target).fill(value, { timeout: 3000 });
+    return { selector: `label:${target}` };
+  } catch {
+    throw new Error(`Field not found: ${target}`);
+  }
+}
+
+async function runSelect(page: Page, target: string, value: string): Promise<unknown> {
+  if (isSnapshotRef(target)) {
+    return { selected: await (await requireRef(page, target)).selectOption(value) };
+  }
+  const sel = /^[.#\[]/.test(target) ? target : `[name="${target}"], #${target}`;
+  return { selected: await page.locator(sel).first().selectOption(value) };
+}
+
+async function runWait(
+  page: Page,
+  step: Extract<BatchAction, { action: "wait" }>
+): Promise<unknown> {
+  const timeout = step.timeout ?? 15000;
+  if (step.ms !== undefined) {
+    await page.waitForTimeout(step.ms);
+    return { waited: step.ms };
+  }
+  if (!step.target) {
+    await page.waitForLoadState("networkidle", { timeout });
+    return { waited: "networkidle" };
+  }
+  if (isSnapshotRef(step.target)) {
+    await (await requireRef(page, step.target)).waitForElementState("visible", { timeout });
+    return { found: "ref" };
+  }
+  try {
+    await page.locator(step.target).first().waitFor({ timeout });
+    return { found: "selector" };
+  } catch {
+    await page.getByText(step.target).first().waitFor({ timeout });
+    return { found: "text" };
+  }
+}
+
+async function runAction(page: Page, step: BatchAction, screenshotDir: string): Promise<unknown> {
+  switch (step.action) {
+    case "goto": {
+      if (!step.url) throw new Error("url is required");
+      let url = step.url;
+      if (step.cachebust && url !== "about:blank") {
+        const sep = url.includes("?") ? "&" : "?";
+        url = `${url}${sep}v=${Date.now()}`;
+      }
+      await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+      try {
+        await page.waitForLoadState("networkidle", { timeout: 10000 });
+      } catch {
+        // proceed
+      }
+      return { url: page.url(), title: await page.title() };
+    }
+
+    case "click":
+      if (!step.target) throw new Error("target is required");
+      return runClick(page, step.target);
+
+    case "fill":
+      if (!step.target || step.value === undefined)
+        throw new Error("target and value are required");
+      return runFill(page, step.target, step.value);
+
+    case "select":
+      if (!step.target || !step.value) throw new Error("target and value are required");
+      return runSelect(page, step.target, step.value);
+
+    case "wait":
+      return runWait(page, step);
+
+    case "screenshot": {
+      const path = step.path || join(screenshotDir, `screenshot-${Date.now()}.png`);
+      await page.screenshot({ path, fullPage: step.fullPage !== false });
+      return { path };
+    }
+
+    case "evaluate": {
+      if (!step.code) throw new Error("code is required");
+      const evaluated = await evaluateCode(page, step.code);
+      if (!evaluated.success) throw new Error(evaluated.error);
+      return evaluated.result;
+    }
+
+    case "press": {
+      if (!step.key) throw new Error("key is required");
+      if (!step.target) {
+        await page.keyboard.press(step.key);
+      } else if (isSnapshotRef(step.target)) {
+        await (await requireRef(page, step.target)).press(step.key);
+      } else {
+        await page.locator(step.target).first().press(step.key, { timeout: 5000 });
+      }
+      return { pressed: step.key };
+    }
+
+    default:
+      throw new Error(
+        `Unknown action: ${(step as { action?: string }).action}. ` +
+          "Use: goto, click, fill, select, wait, screenshot, evaluate, press"
+      );
+  }
+}
+
+/**
+ * Run actions in order against a page.
+ * With onError "stop" (default) the remaining actions are reported as skipped after a failure.
+ */
+export async function runActions(
+  page: Page,
+  actions: BatchAction[],
+  options: Omit<ActionsRequest, "actions"> & { screenshotDir?: string } = {}
+): Promise<ActionsResponse> {
+  const { onError = "stop", discoverEach = false, screenshotDir = tmpdir() } = options;
+  const startTime = Date.now();
+  const steps: ActionStepResult[] = [];
+  let stopped = false;
+
+  for (const [index, step] of actions.entries()) {
+    if (stopped) {
+      steps.push({ index, action: step.action, status: "skipped", duration: 0 });
+      continue;
+    }
+
+    const stepStart = Date.now();
+    try {
+      const result = await runAction(page, step, screenshotDir);
+      steps.push({
+        index,
+        action: step.action,
+        status: "passed",
+        duration: Date.now() - stepStart,
+        result,
+        elements: discoverEach ? await discoverElements(page).catch(() => undefined) : undefined,
+      });
+    } catch (err) {
+      steps.push({
+        index,
+        action: step.action,
+        status: "failed",
+        duration: Date.now() - stepStart,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      if (onError === "stop") stopped = true;
+    }
+  }
+
+  return {
+    success: steps.every((s) => s.status === "passed"),
+    steps,
+    duration: Date.now() - startTime,
+    url: page.url(),
+    // Steps may have closed or navigated the page - their results matter more than discovery
+    elements: await discoverElements(page).catch(() => undefined),
+  };
+}
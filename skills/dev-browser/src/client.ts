@@ -4,8 +4,44 @@ import type {
   GetPageResponse,
   ListPagesResponse,
   ServerInfoResponse,
+  SnapshotResponse,
+  PageEvent,
+  PageEventType,
+  RouteRule,
+  RouteRuleInput,
+  RoutesResponse,
+  DeviceInfo,
+  EmulateResponse,
+  ThrottleConditions,
+  ThrottleRequest,
+  ThrottleResponse,
+  VitalsReport,
+  VitalsRequest,
+  DialogPolicy,
+  DialogsResponse,
+  DownloadRecord,
+  DownloadsResponse,
+  PdfRequest,
+  PdfResponse,
+  ScreenshotRequest,
+  ScreenshotResponse,
+  A11yAuditRequest,
+  A11yAuditResponse,
+  ContrastRequest,
+  ContrastResponse,
+  CoverageReport,
+  CoverageStartRequest,
+  CoverageStartResponse,
+  CoverageStopRequest,
+  ScreencastStartRequest,
+  ScreencastStartResponse,
+  ScreencastStopRequest,
+  ScreencastStopResponse,
+  TraceStartRequest,
+  TraceStartResponse,
+  TraceStopRequest,
+  TraceStopResponse,
 } from "./types";
-import { getSnapshotScript } from "./snapshot/browser-script";
 
 /**
  * Options for finding elements in frames
@@ -53,6 +89,23 @@ export interface FillFormResult {
   submitted: boolean;
 }
 
+/**
+ * Options for subscribing to live page events
+ */
+export interface SubscribeOptions {
+  /** Page names to receive events for (default: all pages) */
+  pages?: string[];
+  /** Event types to receive (default: all types) */
+  types?: PageEventType[];
+  /** Called with errors thrown by onEvent - the stream keeps going (default: console.error) */
+  onError?: (error: unknown, event: PageEvent) => void;
+}
+
+/**
+ * Options for creating a page (an existing page must already be in the requested context)
+ */
+export type PageOptions = Omit<GetPageRequest, "name">;
+
 /**
  * Options for waiting for page load
  */
@@ -383,7 +436,11 @@ export async function waitForNetworkIdle(
 }
 
 export interface DevBrowserClient {
-  page: (name: string) => Promise<Page>;
+  /**
+   * Get or create a named page. Pass { context } to create it in an isolated
+   * browser context (own cookies/storage), e.g. "admin" vs "visitor" side by side.
+   */
+  page: (name: string, options?: PageOptions) => Promise<Page>;
   list: () => Promise<string[]>;
   close: (name: string) => Promise<void>;
   disconnect: () => Promise<void>;
@@ -418,6 +475,136 @@ export interface DevBrowserClient {
     fields: Record<string, string>,
     options?: FillFormOptions
   ) => Promise<FillFormResult>;
+  /**
+   * Subscribe to live page events (navigation, console, dialog, popup, download, crash...).
+   * Streams the server's GET /events endpoint - react to events instead of sleeping.
+   * Resolves once the stream is open; call the returned function to unsubscribe.
+   * Errors thrown by onEvent go to options.onError and don't end the stream.
+   */
+  subscribe: (
+    onEvent: (event: PageEvent) => void,
+    options?: SubscribeOptions
+  ) => Promise<() => void>;
+  /**
+   * Register request interception rules on a page (fulfill, abort, delay, modify headers).
+   * Rules live on the server, so they keep applying after this client disconnects.
+   */
+  route: (name: string, rules: RouteRuleInput | RouteRuleInput[]) => Promise<RouteRule[]>;
+  /**
+   * List active interception rules (newest first) with hit counts.
+   */
+  routes: (name: string) => Promise<RouteRule[]>;
+  /**
+   * Remove one interception rule by id, or all rules when id is omitted.
+   */
+  unroute: (name: string, id?: string) => Promise<void>;
+  /**
+   * Emulate a device (UA, DPR, isMobile, hasTouch, viewport) on a page, or pass null to reset.
+   * Reloads the page by default so UA-based server rendering applies.
+   */
+  emulate: (
+    name: string,
+    device: string | null,
+    options?: { reload?: boolean }
+  ) => Promise<DeviceInfo | null>;
+  /**
+   * List device names and descriptors available for emulate().
+   */
+  devices: () => Promise<DeviceInfo[]>;
+  /**
+   * Throttle network and CPU on a page ({ preset: "slow-3g", cpu: 4 }), or pass null to reset.
+   */
+  throttle: (name: string, conditions: ThrottleRequest | null) => Promise<ThrottleConditions | null>;
+  /**
+   * Load a page with performance observers installed (url, or reload the current one)
+   * and return Core Web Vitals, navigation timing, long tasks and resource totals.
+   */
+  vitals: (name: string, options?: VitalsRequest) => Promise<VitalsReport>;
+  /**
+   * Metrics for the page's current document without navigating - use after interactions for INP.
+   */
+  currentVitals: (name: string) => Promise<VitalsReport>;
+  /**
+   * Set how a page answers alert/confirm/prompt/beforeunload ({ action: "accept" }),
+   * or read the current policy and recent dialogs when policy is omitted.
+   */
+  dialogs: (name: string, policy?: DialogPolicy) => Promise<DialogsResponse>;
+  /**
+   * Answer a dialog held open by the "queue" policy.
+   */
+  answerDialog: (
+    name: string,
+    id: number,
+    action: "accept" | "dismiss",
+    promptText?: string
+  ) => Promise<void>;
+  /**
+   * Downloads captured from registry pages (all pages, or only the given ones).
+   * Files are saved by the server under <tmp>/<project>/downloads.
+   */
+  downloads: (pages?: string | string[]) => Promise<DownloadRecord[]>;
+  /**
+   * Wait for the page's next finished download. Pass `after` (a download id, e.g. the
+   * last one before clicking) so a download that finished before the call isn't missed.
+   */
+  waitForDownload: (
+    name: string,
+    options?: { after?: number; timeout?: number }
+  ) => Promise<DownloadRecord>;
+  /**
+   * Print a page to PDF with print media (paper size, margins, header/footer, page ranges).
+   * Headed browsers print through a temporary headless copy with the same storage state.
+   */
+  pdf: (name: string, options?: PdfRequest) => Promise<PdfResponse>;
+  /**
+   * Screenshot taken by the server's Page - whole page, an element (selector or snapshot ref)
+   * or a clip region, as PNG/JPEG/WebP. Set base64 to get the image inline instead of a file.
+   */
+  screenshot: (name: string, options?: ScreenshotRequest) => Promise<ScreenshotResponse>;
+  /**
+   * Start a Playwright trace (screenshots, DOM snapshots, sources) of the page's context.
+   * One page per context can trace at a time.
+   */
+  startTrace: (name: string, options?: TraceStartRequest) => Promise<TraceStartResponse>;
+  /**
+   * Stop the page's trace and write the zip (default: project tmp dir), or discard it.
+   * Open it with `npx playwright show-trace <path>`.
+   */
+  stopTrace: (name: string, options?: TraceStopRequest) => Promise<TraceStopResponse>;
+  /**
+   * Start recording the page as a video via CDP screencast (default 10 fps, stops itself
+   * after 5 minutes).
+   */
+  startScreencast: (
+    name: string,
+    options?: ScreencastStartRequest
+  ) => Promise<ScreencastStartResponse>;
+  /**
+   * Stop recording and encode the video - a WebM file, or a frame directory with an
+   * index.html player when ffmpeg isn't available.
+   */
+  stopScreencast: (name: string, options?: ScreencastStopRequest) => Promise<ScreencastStopResponse>;
+  /**
+   * Start collecting JS/CSS coverage. Collection spans navigations, so a multi-page flow is
+   * measured as a whole.
+   */
+  startCoverage: (name: string, options?: CoverageStartRequest) => Promise<CoverageStartResponse>;
+  /**
+   * Stop collecting and get per-file used/unused bytes and unused ranges. Pass report to also
+   * write a JSON or HTML report (default: project tmp dir).
+   */
+  stopCoverage: (name: string, options?: CoverageStopRequest) => Promise<CoverageReport>;
+  /**
+   * Accessibility audit using the snapshot's role/name engine - empty names, missing alt and
+   * labels, broken/duplicate id references, skipped heading levels, unclickable controls.
+   * Findings carry a snapshot ref (usable with selectSnapshotRef) and a CSS selector.
+   */
+  auditA11y: (name: string, options?: A11yAuditRequest) => Promise<A11yAuditResponse>;
+  /**
+   * WCAG contrast of visible text - effective foreground over composited ancestor backgrounds,
+   * AA/AAA with large-text thresholds. Background images make a result "unknown".
+   */
+  checkContrast: (name: string, options?: ContrastRequest) => Promise<ContrastResponse>;
 }
 
 export async function connect(serverUrl = "http://localhost:9222"): Promise<DevBrowserClient> {
@@ -489,20 +676,24 @@ export async function connect(serverUrl = "http://localhost:9222"): Promise<DevB
     return null;
   }
 
-  // Helper to get a page by name (used by multiple methods)
-  async function getPage(name: string): Promise<Page> {
-    // Request the page from server (creates if doesn't exist)
+  // Request a page from the server (creates if doesn't exist) without connecting over CDP
+  async function requestPage(name: string, options: PageOptions = {}): Promise<GetPageResponse> {
     const res = await fetch(`${serverUrl}/pages`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ name } satisfies GetPageRequest),
+      body: JSON.stringify({ name, ...options } satisfies GetPageRequest),
     });
 
     if (!res.ok) {
       throw new Error(`Failed to get page: ${await res.text()}`);
     }
 
-    const { targetId } = (await res.json()) as GetPageResponse;
+    return (await res.json()) as GetPageResponse;
+  }
+
+  // Helper to get a page by name (used by multiple methods)
+  async function getPage(name: string, options?: PageOptions): Promise<Page> {
+    const { targetId } = await requestPage(name, options);
 
     // Connect to browser
     const b = await ensureConnected();
@@ -544,23 +735,16 @@ export async function connect(serverUrl = "http://localhost:9222"): Promise<DevB
     },
 
     async getAISnapshot(name: string): Promise<string> {
-      // Get the page
-      const page = await getPage(name);
+      // Make sure the page exists, then let the server snapshot its own Page
+      // (avoids opening a CDP connection just to evaluate the script)
+      await requestPage(name);
 
-      // Inject the snapshot script and call getAISnapshot
-      const snapshotScript = getSnapshotScript();
-      const snapshot = await page.evaluate((script: string) => {
-        // Inject script if not already present
-        // Note: page.evaluate runs in browser context where window exists
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const w = globalThis as any;
-        if (!w.__devBrowser_getAISnapshot) {
-          // eslint-disable-next-line no-eval
-          eval(script);
-        }
-        return w.__devBrowser_getAISnapshot();
-      }, snapshotScript);
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/snapshot`);
+      if (!res.ok) {
+        throw new Error(`Failed to get snapshot: ${await res.text()}`);
+      }
 
+      const { snapshot } = (await res.json()) as SnapshotResponse;
       return snapshot;
     },
 
@@ -756,5 +940,349 @@ export async function connect(serverUrl = "http://localhost:9222"): Promise<DevB
 
       return { filled, notFound, submitted };
     },
+
+    async subscribe(
+      onEvent: (event: PageEvent) => void,
+      options: SubscribeOptions = {}
+    ): Promise<() => void> {
+      const params = new URLSearchParams();
+      if (options.pages?.length) params.set("page", options.pages.join(","));
+      if (options.types?.length) params.set("type", options.types.join(","));
+
+      const controller = new AbortController();
+      const res = await fetch(`${serverUrl}/events?${params}`, { signal: controller.signal });
+      if (!res.ok || !res.body) {
+        throw new Error(`Failed to subscribe: ${await res.text()}`);
+      }
+
+      // Read the SSE stream in the background - messages are separated by a blank line
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let pending = "";
+      (async () => {
+        while (true) {
+          let chunk: Awaited<ReturnType<typeof reader.read>>;
+          try {
+            chunk = await reader.read();
+          } catch {
+            // Aborted by unsubscribe or server went away
+            return;
+          }
+          if (chunk.done) return;
+          pending += decoder.decode(chunk.value, { stream: true });
+
+          let end: number;
+          while ((end = pending.indexOf("\n\n")) !== -1) {
+            const message = pending.slice(0, end);
+            pending = pending.slice(end + 2);
+            const data = message
+              .split("\n")
+              .filter((line) => line.startsWith("data: "))
+              .map((line) => line.slice(6))
+              .join("\n");
+            if (!data) continue;
+            let event: PageEvent;
+            try {
+              event = JSON.parse(data) as PageEvent;
+            } catch {
+              console.warn(`Ignoring malformed event: ${data}`);
+              continue;
+            }
+            try {
+              onEvent(event);
+            } catch (err) {
+              // The handler's error, not the stream's - report it and keep reading
+              if (options.onError) options.onError(err, event);
+              else console.error(`Event handler failed for ${event.type} on "${event.page}":`, err);
+            }
+          }
+        }
+      })().catch((err) => console.error("Event stream stopped:", err));
+
+      return () => controller.abort();
+    },
+
+    async route(name: string, rules: RouteRuleInput | RouteRuleInput[]): Promise<RouteRule[]> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/routes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(Array.isArray(rules) ? { rules } : rules),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to add route: ${await res.text()}`);
+      }
+      return ((await res.json()) as RoutesResponse).rules;
+    },
+
+    async routes(name: string): Promise<RouteRule[]> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/routes`);
+      if (!res.ok) {
+        throw new Error(`Failed to list routes: ${await res.text()}`);
+      }
+      return ((await res.json()) as RoutesResponse).rules;
+    },
+
+    async unroute(name: string, id?: string): Promise<void> {
+      const path = id ? `/routes/${encodeURIComponent(id)}` : "/routes";
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}${path}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to remove route: ${await res.text()}`);
+      }
+    },
+
+    async emulate(
+      name: string,
+      device: string | null,
+      options: { reload?: boolean } = {}
+    ): Promise<DeviceInfo | null> {
+      const url = `${serverUrl}/pages/${encodeURIComponent(name)}/emulate`;
+      const res =
+        device === null
+          ? await fetch(`${url}?reload=${options.reload !== false}`, { method: "DELETE" })
+          : await fetch(url, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ device, reload: options.reload }),
+            });
+      if (!res.ok) {
+        throw new Error(`Failed to emulate device: ${await res.text()}`);
+      }
+      return ((await res.json()) as EmulateResponse).device;
+    },
+
+    async devices(): Promise<DeviceInfo[]> {
+      const res = await fetch(`${serverUrl}/devices`);
+      if (!res.ok) {
+        throw new Error(`Failed to list devices: ${await res.text()}`);
+      }
+      return ((await res.json()) as { devices: DeviceInfo[] }).devices;
+    },
+
+    async throttle(
+      name: string,
+      conditions: ThrottleRequest | null
+    ): Promise<ThrottleConditions | null> {
+      const url = `${serverUrl}/pages/${encodeURIComponent(name)}/throttle`;
+      const res =
+        conditions === null
+          ? await fetch(url, { method: "DELETE" })
+          : await fetch(url, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(conditions),
+            });
+      if (!res.ok) {
+        throw new Error(`Failed to throttle: ${await res.text()}`);
+      }
+      return ((await res.json()) as ThrottleResponse).conditions;
+    },
+
+    async vitals(name: string, options: VitalsRequest = {}): Promise<VitalsReport> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/vitals`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to collect vitals: ${await res.text()}`);
+      }
+      return (await res.json()) as VitalsReport;
+    },
+
+    async currentVitals(name: string): Promise<VitalsReport> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/vitals`);
+      if (!res.ok) {
+        throw new Error(`Failed to collect vitals: ${await res.text()}`);
+      }
+      return (await res.json()) as VitalsReport;
+    },
+
+    async dialogs(name: string, policy?: DialogPolicy): Promise<DialogsResponse> {
+      const url = `${serverUrl}/pages/${encodeURIComponent(name)}/dialogs`;
+      const res = policy
+        ? await fetch(`${url}/policy`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(policy),
+          })
+        : await fetch(url);
+      if (!res.ok) {
+        throw new Error(`Failed to get dialogs: ${await res.text()}`);
+      }
+      return (await res.json()) as DialogsResponse;
+    },
+
+    async answerDialog(
+      name: string,
+      id: number,
+      action: "accept" | "dismiss",
+      promptText?: string
+    ): Promise<void> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/dialogs/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, promptText }),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to answer dialog: ${await res.text()}`);
+      }
+    },
+
+    async downloads(pages?: string | string[]): Promise<DownloadRecord[]> {
+      const filter = pages === undefined ? [] : Array.isArray(pages) ? pages : [pages];
+      const query = filter.length > 0 ? `?page=${encodeURIComponent(filter.join(","))}` : "";
+      const res = await fetch(`${serverUrl}/downloads${query}`);
+      if (!res.ok) {
+        throw new Error(`Failed to list downloads: ${await res.text()}`);
+      }
+      return ((await res.json()) as DownloadsResponse).downloads;
+    },
+
+    async waitForDownload(
+      name: string,
+      options: { after?: number; timeout?: number } = {}
+    ): Promise<DownloadRecord> {
+      const params = new URLSearchParams();
+      if (options.after !== undefined) params.set("after", String(options.after));
+      if (options.timeout !== undefined) params.set("timeout", String(options.timeout));
+      const res = await fetch(
+        `${serverUrl}/pages/${encodeURIComponent(name)}/downloads/next?${params}`
+      );
+      if (!res.ok) {
+        throw new Error(`Failed to wait for download: ${await res.text()}`);
+      }
+      return (await res.json()) as DownloadRecord;
+    },
+
+    async pdf(name: string, options: PdfRequest = {}): Promise<PdfResponse> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/pdf`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to print PDF: ${await res.text()}`);
+      }
+      return (await res.json()) as PdfResponse;
+    },
+
+    async screenshot(name: string, options: ScreenshotRequest = {}): Promise<ScreenshotResponse> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/screenshot`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to take screenshot: ${await res.text()}`);
+      }
+      return (await res.json()) as ScreenshotResponse;
+    },
+
+    async startTrace(name: string, options: TraceStartRequest = {}): Promise<TraceStartResponse> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/trace/start`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to start trace: ${await res.text()}`);
+      }
+      return (await res.json()) as TraceStartResponse;
+    },
+
+    async stopTrace(name: string, options: TraceStopRequest = {}): Promise<TraceStopResponse> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/trace/stop`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to stop trace: ${await res.text()}`);
+      }
+      return (await res.json()) as TraceStopResponse;
+    },
+
+    async startScreencast(
+      name: string,
+      options: ScreencastStartRequest = {}
+    ): Promise<ScreencastStartResponse> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/screencast/start`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to start screencast: ${await res.text()}`);
+      }
+      return (await res.json()) as ScreencastStartResponse;
+    },
+
+    async stopScreencast(
+      name: string,
+      options: ScreencastStopRequest = {}
+    ): Promise<ScreencastStopResponse> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/screencast/stop`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to stop screencast: ${await res.text()}`);
+      }
+      return (await res.json()) as ScreencastStopResponse;
+    },
+
+    async startCoverage(
+      name: string,
+      options: CoverageStartRequest = {}
+    ): Promise<CoverageStartResponse> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/coverage/start`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to start coverage: ${await res.text()}`);
+      }
+      return (await res.json()) as CoverageStartResponse;
+    },
+
+    async stopCoverage(name: string, options: CoverageStopRequest = {}): Promise<CoverageReport> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/coverage/stop`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to stop coverage: ${await res.text()}`);
+      }
+      return (await res.json()) as CoverageReport;
+    },
+
+    async auditA11y(name: string, options: A11yAuditRequest = {}): Promise<A11yAuditResponse> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/a11y`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to audit accessibility: ${await res.text()}`);
+      }
+      return (await res.json()) as A11yAuditResponse;
+    },
+
+    async checkContrast(name: string, options: ContrastRequest = {}): Promise<ContrastResponse> {
+      const res = await fetch(`${serverUrl}/pages/${encodeURIComponent(name)}/contrast`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to check contrast: ${await res.text()}`);
+      }
+      return (await res.json()) as ContrastResponse;
+    },
   };
 }
@@ -0,0 +1,96 @@
+// Per-page console ring buffer - captures console, pageerror and requestfailed events
+// from page creation onwards so nothing logged between CLI commands is lost
+
+import type { Page } from "playwright";
+import type { ConsoleEntry } from "./types";
+
+const DEFAULT_CAPACITY = 500;
+
+export interface ConsoleQuery {
+  /** Only entries with id > since */
+  since?: number;
+  /** Only entries with one of these levels ("warn" is accepted for "warning") */
+  levels?: string[];
+}
+
+export function createConsoleBuffer(capacity = DEFAULT_CAPACITY) {
+  const entries: ConsoleEntry[] = [];
+  let nextId = 1;
+  let dropped = 0;
+
+  return {
+    push(entry: Omit<ConsoleEntry, "id" | "timestamp">): ConsoleEntry {
+      const full: ConsoleEntry = { id: nextId++, timestamp: new Date().toISOString(), ...entry };
+      entries.push(full);
+      if (entries.length > capacity) {
+        entries.shift();
+        dropped++;
+      }
+      return full;
+    },
+
+    query({ since, levels }: ConsoleQuery = {}): ConsoleEntry[] {
+      const wanted = levels?.map((l) => (l === "warn" ? "warning" : l));
+      return entries.filter(
+        (e) => (since === undefined || e.id > since) && (!wanted || wanted.includes(e.level))
+      );
+    },
+
+    get lastId(): number {
+      return nextId - 1;
+    },
+
+    get dropped(): number {
+      return dropped;
+    },
+  };
+}
+
+export type ConsoleBuffer = ReturnType<typeof createConsoleBuffer>;
+
+// Attach listeners that record into the buffer for the lifetime of the page.
+// onEntry is called with every recorded entry (used to stream them as events).
+export function attachConsoleCapture(
+  page: Page,
+  buffer: ConsoleBuffer,
+  onEntry?: (entry: ConsoleEntry) => void
+): void {
+  const record = (entry: Omit<ConsoleEntry, "id" | "timestamp">) => {
+    const full = buffer.push(entry);
+    onEntry?.(full);
+  };
+
+  page.on("console", (msg) => {
+    const loc = msg.location();
+    record({
+      source: "console",
+      level: msg.type(),
+      text: msg.text(),
+      location: loc.url
+        ? { url: loc.url, line: loc.lineNumber, column: loc.columnNumber }
+        : undefined,
+    });
+  });
+
+  page.on("pageerror", (err) => {
+    // First stack frame gives the source location, e.g. "at foo (https://site/app.js:10:5)"
+    const frame = err.stack?.match(/\(?(\S+):(\d+):(\d+)\)?\s*$/m);
+    record({
+      source: "pageerror",
+      level: "error",
+      text: err.message,
+      location: frame?.[1]
+        ? { url: frame[1], line: Number(frame[2]), column: Number(frame[3]) }
+        : undefined,
+    });
+  });
+
+  page.on("requestfailed", (request) => {
+    record({
+      source: "requestfailed",
+      level: "error",
+      text: `${request.method()} ${request.url()} - ${request.failure()?.errorText ?? "failed"}`,
+      location: { url: request.url() },
+    });
+  });
+}
@@ -0,0 +1,200 @@
+// JS/CSS coverage of a page - Playwright's Chromium coverage (CDP Profiler precise coverage and
+// CSS.startRuleUsageTracking) kept across navigations, so a multi-page flow is measured as a
+// whole. Offsets and sizes are in characters of the decoded source (bytes for ASCII files).
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import type { Page } from "playwright";
+import type {
+  CoverageFile,
+  CoverageRange,
+  CoverageReport,
+  CoverageStartRequest,
+  CoverageStopRequest,
+  CoverageTotals,
+} from "./types";
+
+// 1 for every character a range marks as used. Ranges are painted outer-first so nested
+// block ranges (V8 reports e.g. an unexecuted branch inside an executed function) win.
+function usageMask(
+  length: number,
+  ranges: Array<{ start: number; end: number; used: boolean }>
+): Uint8Array {
+  const mask = new Uint8Array(length);
+  const ordered = [...ranges].sort((a, b) => a.start - b.start || b.end - a.end);
+  for (const range of ordered) {
+    mask.fill(range.used ? 1 : 0, range.start, Math.min(range.end, length));
+  }
+  return mask;
+}
+
+function unusedRanges(mask: Uint8Array): CoverageRange[] {
+  const ranges: CoverageRange[] = [];
+  let start = -1;
+  for (let i = 0; i <= mask.length; i++) {
+    const unused = i < mask.length && mask[i] === 0;
+    if (unused && start === -1) start = i;
+    if (!unused && start !== -1) {
+      ranges.push({ start, end: i });
+      start = -1;
+    }
+  }
+  return ranges;
+}
+
+function totals(files: CoverageFile[]): CoverageTotals {
+  const totalBytes = files.reduce((sum, f) => sum + f.totalBytes, 0);
+  const usedBytes = files.reduce((sum, f) => sum + f.usedBytes, 0);
+  return {
+    totalBytes,
+    usedBytes,
+    unusedBytes: totalBytes - usedBytes,
+    usedPercent: totalBytes ? Math.round((usedBytes / totalBytes) * 1000) / 10 : 0,
+  };
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+
+const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+
+// Self-contained report: totals, files by unused size, and the unused source of each file
+function reportHtml(report: CoverageReport, sources: Map<CoverageFile, string>): string {
+  const summary = (label: string, t: CoverageTotals) =>
+    `<p><b>${label}</b> ${t.usedPercent}% used - ${kb(t.usedBytes)} of ${kb(t.totalBytes)}, ${kb(t.unusedBytes)} unused</p>`;
+  const rows = [...report.files]
+    .sort((a, b) => b.unusedBytes - a.unusedBytes)
+    .map((file) => {
+      const source = sources.get(file) ?? "";
+      const snippets = file.unusedRanges
+        .filter((r) => source.slice(r.start, r.end).trim())
+        .slice(0, 100)
+        .map((r) => {
+          const text = source.slice(r.start, Math.min(r.end, r.start + 400));
+          const more = r.end - r.start > 400 ? " …" : "";
+          return `<pre data-range="${r.start}-${r.end}">${escapeHtml(text)}${more}</pre>`;
+        })
+        .join("");
+      return `<details><summary><span class="bar"><i style="width:${file.usedPercent}%"></i></span>
+<code>${file.type}</code> ${escapeHtml(file.url)} - ${file.usedPercent}% used, ${kb(file.unusedBytes)} unused</summary>
+${snippets || "<p>No unused code</p>"}</details>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<meta charset="utf-8"><title>Coverage report</title>
+<style>
+body { font: 14px system-ui, sans-serif; margin: 2em; }
+summary { cursor: pointer; padding: 4px 0; }
+.bar { display: inline-block; width: 120px; height: 10px; background: #e55; margin-right: 8px; }
+.bar i { display: block; height: 100%; background: #4a4; }
+pre { background: #fff3f3; border-left: 3px solid #e55; padding: 6px; white-space: pre-wrap; overflow-wrap: anywhere; }
+</style>
+<h1>Coverage report</h1>
+<p>${escapeHtml(report.urls.join(" → "))}</p>
+${summary("JS", report.js)}
+${summary("CSS", report.css)}
+${rows}
+`;
+}
+
+/**
+ * Start collecting coverage on a page. stop() returns per-file used/unused totals and unused
+ * ranges, and writes a JSON or HTML report to path when asked.
+ */
+export async function startCoverage(page: Page, options: CoverageStartRequest = {}) {
+  const js = options.js ?? true;
+  const css = options.css ?? true;
+  if (!js && !css) throw new Error("Nothing to collect - enable js or css");
+
+  const startedAt = new Date().toISOString();
+  const urls = [page.url()].filter((u) => u !== "about:blank");
+  const onNavigate = (frame: ReturnType<Page["mainFrame"]>) => {
+    if (frame === page.mainFrame() && urls[urls.length - 1] !== frame.url()) urls.push(frame.url());
+  };
+  page.on("framenavigated", onNavigate);
+
+  if (js) await page.coverage.startJSCoverage({ resetOnNavigation: false });
+  if (css) await page.coverage.startCSSCoverage({ resetOnNavigation: false });
+
+  return {
+    startedAt,
+    js,
+    css,
+
+    async stop(reportOptions: CoverageStopRequest = {}): Promise<CoverageReport> {
+      page.off("framenavigated", onNavigate);
+      const [jsEntries, cssEntries] = await Promise.all([
+        js ? page.coverage.stopJSCoverage() : [],
+        css ? page.coverage.stopCSSCoverage() : [],
+      ]);
+
+      // The same file loaded on several pages is merged into one entry
+      const merged = new Map<
+        string,
+        { url: string; type: "js" | "css"; source: string; mask: Uint8Array }
+      >();
+      const add = (type: "js" | "css", url: string, source: string, mask: Uint8Array) => {
+        if (!url || url.startsWith("chrome-extension://")) return;
+        const key = `${type}\n${url}\n${source.length}`;
+        const existing = merged.get(key);
+        if (existing && existing.source === source) {
+          for (let i = 0; i < mask.length; i++) if (mask[i]) existing.mask[i] = 1;
+        } else {
+          merged.set(key, { url, type, source, mask });
+        }
+      };
+      for (const entry of jsEntries) {
+        const source = entry.source ?? "";
+        const ranges = entry.functions.flatMap((fn) =>
+          fn.ranges.map((r) => ({ start: r.startOffset, end: r.endOffset, used: r.count > 0 }))
+        );
+        add("js", entry.url, source, usageMask(source.length, ranges));
+      }
+      for (const entry of cssEntries) {
+        const source = entry.text ?? "";
+        const ranges = entry.ranges.map((r) => ({ ...r, used: true }));
+        add("css", entry.url, source, usageMask(source.length, ranges));
+      }
+
+      const sources = new Map<CoverageFile, string>();
+      const files = [...merged.values()].map(({ url, type, source, mask }) => {
+        const usedBytes = mask.reduce((sum, v) => sum + v, 0);
+        const file: CoverageFile = {
+          url,
+          type,
+          totalBytes: source.length,
+          usedBytes,
+          unusedBytes: source.length - usedBytes,
+          usedPercent: source.length ? Math.round((usedBytes / source.length) * 1000) / 10 : 0,
+          unusedRanges: unusedRanges(mask),
+        };
+        sources.set(file, source);
+        return file;
+      });
+
+      const report: CoverageReport = {
+        startedAt,
+        duration: Date.now() - new Date(startedAt).getTime(),
+        urls,
+        js: totals(files.filter((f) => f.type === "js")),
+        css: totals(files.filter((f) => f.type === "css")),
+        files,
+      };
+
+      if (reportOptions.report && reportOptions.path) {
+        mkdirSync(dirname(reportOptions.path), { recursive: true });
+        writeFileSync(
+          reportOptions.path,
+          reportOptions.report === "html"
+            ? reportHtml(report, sources)
+            : JSON.stringify(report, null, 2)
+        );
+        report.report = reportOptions.path;
+      }
+      return report;
+    },
+  };
+}
+
+export type CoverageSession = Awaited<ReturnType<typeof startCoverage>>;
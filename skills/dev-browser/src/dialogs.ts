@@ -0,0 +1,109 @@
+// Dialog policy and log - alert/confirm/prompt/beforeunload are answered on the server,
+// so a confirm() raised mid-click can't leave the page blocked until an action times out
+
+import type { Dialog } from "playwright";
+import type { DialogPolicy, DialogRecord, DialogType } from "./types";
+
+const POLICY_ACTIONS = ["accept", "dismiss", "queue"] as const;
+
+// Records kept per page - dialogs are rare, this only bounds pathological alert loops
+const MAX_RECORDS = 100;
+
+export const DEFAULT_DIALOG_POLICY: DialogPolicy = { action: "dismiss" };
+
+// Validate a policy before applying it - returns an error message or null
+export function validateDialogPolicy(input: DialogPolicy): string | null {
+  if (!input || !POLICY_ACTIONS.includes(input.action)) {
+    return `action must be one of: ${POLICY_ACTIONS.join(", ")}`;
+  }
+  if (input.promptText !== undefined && typeof input.promptText !== "string") {
+    return "promptText must be a string";
+  }
+  return null;
+}
+
+/**
+ * Per-page dialog handler. handle() is the page's "dialog" listener:
+ * it records the dialog synchronously, then answers it per the current policy.
+ */
+export function createDialogLog(initial: DialogPolicy = DEFAULT_DIALOG_POLICY) {
+  let policy: DialogPolicy = { ...initial };
+  const records: DialogRecord[] = [];
+  const pending = new Map<number, Dialog>();
+  let nextId = 1;
+
+  const answer = async (
+    dialog: Dialog,
+    record: DialogRecord,
+    action: "accept" | "dismiss",
+    promptText: string | undefined,
+    by: "policy" | "manual"
+  ) => {
+    record.handled = action === "accept" ? "accepted" : "dismissed";
+    record.by = by;
+    if (action === "accept") {
+      const text = record.type === "prompt" ? (promptText ?? record.defaultValue) : undefined;
+      if (text !== undefined) record.promptText = text;
+      await dialog.accept(text);
+    } else {
+      await dialog.dismiss();
+    }
+  };
+
+  return {
+    get policy(): DialogPolicy {
+      return policy;
+    },
+
+    setPolicy(next: DialogPolicy): void {
+      policy = { ...next };
+    },
+
+    handle(dialog: Dialog): DialogRecord {
+      const record: DialogRecord = {
+        id: nextId++,
+        type: dialog.type() as DialogType,
+        message: dialog.message(),
+        defaultValue: dialog.type() === "prompt" ? dialog.defaultValue() : undefined,
+        url: dialog.page()?.url() ?? "",
+        timestamp: new Date().toISOString(),
+        handled: "pending",
+      };
+      records.push(record);
+      if (records.length > MAX_RECORDS) records.shift();
+
+      if (policy.action === "queue") {
+        pending.set(record.id, dialog);
+      } else {
+        // Another client may have answered it already over CDP
+        answer(dialog, record, policy.action, policy.promptText, "policy").catch(() => {});
+      }
+      return record;
+    },
+
+    /** Answer a queued dialog - false when the id is not pending */
+    async respond(id: number, action: "accept" | "dismiss", promptText?: string): Promise<boolean> {
+      const dialog = pending.get(id);
+      const record = records.find((r) => r.id === id);
+      if (!dialog || !record) return false;
+      pending.delete(id);
+      await answer(dialog, record, action, promptText, "manual");
+      return true;
+    },
+
+    list(): DialogRecord[] {
+      return [...records];
+    },
+
+    /** Dialogs recorded after the given id (used to report dialogs raised by one action) */
+    since(id: number): DialogRecord[] {
+      return records.filter((r) => r.id > id);
+    },
+
+    get lastId(): number {
+      return nextId - 1;
+    },
+  };
+}
+
+export type DialogLog = ReturnType<typeof createDialogLog>;
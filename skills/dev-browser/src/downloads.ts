@@ -0,0 +1,100 @@
+// Download capture - files from every registry page are saved with their metadata,
+// so "Export CSV" style buttons can be tested without digging through the browser profile
+
+import { EventEmitter } from "events";
+import { existsSync, mkdirSync, statSync } from "fs";
+import { basename, extname, join } from "path";
+import type { Download } from "playwright";
+import type { DownloadRecord } from "./types";
+
+// Records kept in memory - files stay on disk after eviction
+const MAX_RECORDS = 200;
+
+// Pick a free file name in dir: "report.csv", "report (1).csv", ...
+function uniquePath(dir: string, filename: string): string {
+  // Suggested names come from the site - never let them escape the directory
+  const safe = basename(filename).replace(/[\u0000-\u001f]/g, "") || "download";
+  const ext = extname(safe);
+  const stem = safe.slice(0, safe.length - ext.length);
+  let candidate = join(dir, safe);
+  for (let n = 1; existsSync(candidate); n++) {
+    candidate = join(dir, `${stem} (${n})${ext}`);
+  }
+  return candidate;
+}
+
+export function createDownloadStore() {
+  const records: DownloadRecord[] = [];
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+  let nextId = 1;
+
+  return {
+    /** Save a download into dir and record it - resolves once the file is written */
+    async capture(download: Download, page: string, dir: string): Promise<DownloadRecord> {
+      const record: DownloadRecord = {
+        id: nextId++,
+        page,
+        url: download.url(),
+        suggestedFilename: download.suggestedFilename(),
+        status: "saving",
+        startedAt: new Date().toISOString(),
+      };
+      records.push(record);
+      if (records.length > MAX_RECORDS) records.shift();
+
+      try {
+        mkdirSync(dir, { recursive: true });
+        const path = uniquePath(dir, record.suggestedFilename);
+        await download.saveAs(path);
+        record.path = path;
+        record.size = statSync(path).size;
+        record.status = "complete";
+      } catch (err) {
+        record.status = "failed";
+        record.error = (await download.failure().catch(() => null)) ?? String(err);
+      }
+      record.completedAt = new Date().toISOString();
+      emitter.emit("done", record);
+      return record;
+    },
+
+    list(pages?: string[]): DownloadRecord[] {
+      return pages ? records.filter((r) => pages.includes(r.page)) : [...records];
+    },
+
+    get(id: number): DownloadRecord | undefined {
+      return records.find((r) => r.id === id);
+    },
+
+    /** Newest download id (0 when none yet) */
+    get lastId(): number {
+      return nextId - 1;
+    },
+
+    /**
+     * Resolve with the first finished download on page with id > after,
+     * or null after timeout ms.
+     */
+    waitFor(page: string, after: number, timeout: number): Promise<DownloadRecord | null> {
+      const done = records.find((r) => r.page === page && r.id > after && r.status !== "saving");
+      if (done) return Promise.resolve(done);
+
+      return new Promise((resolve) => {
+        const onDone = (record: DownloadRecord) => {
+          if (record.page !== page || record.id <= after) return;
+          clearTimeout(timer);
+          emitter.off("done", onDone);
+          resolve(record);
+        };
+        const timer = setTimeout(() => {
+          emitter.off("done", onDone);
+          resolve(null);
+        }, timeout);
+        emitter.on("done", onDone);
+      });
+    },
+  };
+}
+
+export type DownloadStore = ReturnType<typeof createDownloadStore>;
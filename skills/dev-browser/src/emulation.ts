@@ -0,0 +1,58 @@
+// Device emulation for registry pages - UA, DPR, isMobile, hasTouch and viewport from Playwright's
+// device registry, applied through a CDP session so the page keeps its context, cookies and history
+
+import { devices, type CDPSession, type Page } from "playwright";
+import type { DeviceInfo } from "./types";
+
+function toDeviceInfo(name: string, d: (typeof devices)[string]): DeviceInfo {
+  return {
+    name,
+    userAgent: d.userAgent,
+    viewport: d.viewport,
+    deviceScaleFactor: d.deviceScaleFactor,
+    isMobile: d.isMobile,
+    hasTouch: d.hasTouch,
+  };
+}
+
+export function listDevices(): DeviceInfo[] {
+  return Object.entries(devices).map(([name, d]) => toDeviceInfo(name, d));
+}
+
+// Exact match first, then case-insensitive ("iphone 13" → "iPhone 13")
+export function findDevice(name: string): DeviceInfo | null {
+  const exact = devices[name];
+  if (exact) return toDeviceInfo(name, exact);
+  const key = Object.keys(devices).find((k) => k.toLowerCase() === name.toLowerCase());
+  return key ? toDeviceInfo(key, devices[key]!) : null;
+}
+
+/**
+ * Apply a device through CDP. The session must stay attached - Chrome drops
+ * a session's overrides when it detaches.
+ */
+export async function applyDevice(cdp: CDPSession, device: DeviceInfo): Promise<void> {
+  const { width, height } = device.viewport;
+  await cdp.send("Emulation.setDeviceMetricsOverride", {
+    width,
+    height,
+    deviceScaleFactor: device.deviceScaleFactor,
+    mobile: device.isMobile,
+    screenWidth: width,
+    screenHeight: height,
+  });
+  await cdp.send("Emulation.setTouchEmulationEnabled", {
+    enabled: device.hasTouch,
+    maxTouchPoints: device.hasTouch ? 5 : undefined,
+  });
+  await cdp.send("Emulation.setUserAgentOverride", { userAgent: device.userAgent });
+}
+
+// Undo applyDevice and hand the viewport back to Playwright
+export async function clearDevice(cdp: CDPSession, page: Page, userAgent: string): Promise<void> {
+  await cdp.send("Emulation.clearDeviceMetricsOverride");
+  await cdp.send("Emulation.setTouchEmulationEnabled", { enabled: false });
+  await cdp.send("Emulation.setUserAgentOverride", { userAgent });
+  const viewport = page.viewportSize();
+  if (viewport) await page.setViewportSize(viewport);
+}
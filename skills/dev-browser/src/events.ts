@@ -0,0 +1,96 @@
+// Page event bus - fans out page activity (navigations, console, dialogs, popups,
+// downloads, request failures, crashes) to GET /events subscribers
+
+import { EventEmitter } from "events";
+import type { Page } from "playwright";
+import type { DialogLog } from "./dialogs";
+import type { ConsoleEntry, PageEvent, PageEventType } from "./types";
+
+export const PAGE_EVENT_TYPES: PageEventType[] = [
+  "navigation",
+  "console",
+  "pageerror",
+  "requestfailed",
+  "dialog",
+  "popup",
+  "download",
+  "crash",
+  "close",
+];
+
+export interface EventFilter {
+  /** Page names to include (all pages when omitted) */
+  pages?: string[];
+  /** Event types to include (all types when omitted) */
+  types?: PageEventType[];
+}
+
+export function createEventBus() {
+  const emitter = new EventEmitter();
+  // One listener per open stream - no meaningful upper bound
+  emitter.setMaxListeners(0);
+
+  return {
+    publish(page: string, type: PageEventType, data: Record<string, unknown> = {}): void {
+      const event: PageEvent = { type, page, timestamp: new Date().toISOString(), data };
+      emitter.emit("event", event);
+    },
+
+    subscribe(filter: EventFilter, listener: (event: PageEvent) => void): () => void {
+      const handler = (event: PageEvent) => {
+        if (filter.pages && !filter.pages.includes(event.page)) return;
+        if (filter.types && !filter.types.includes(event.type)) return;
+        listener(event);
+      };
+      emitter.on("event", handler);
+      return () => emitter.off("event", handler);
+    },
+  };
+}
+
+export type EventBus = ReturnType<typeof createEventBus>;
+
+// Publish a buffered console entry (console, pageerror, requestfailed) as a page event
+export function publishConsoleEntry(bus: EventBus, name: string, entry: ConsoleEntry): void {
+  const { source, ...data } = entry;
+  bus.publish(name, source, data);
+}
+
+// Attach listeners for the non-console page activity
+// Dialogs are answered by the page's dialog log (policy) before being published
+export function attachPageEvents(
+  page: Page,
+  name: string,
+  bus: EventBus,
+  dialogs: DialogLog
+): void {
+  page.on("framenavigated", (frame) => {
+    if (frame !== page.mainFrame()) return;
+    bus.publish(name, "navigation", { url: frame.url() });
+  });
+
+  page.on("dialog", (dialog) => {
+    // Listening disables Playwright's auto-dismiss, so the log must always answer or queue it
+    const record = dialogs.handle(dialog);
+    bus.publish(name, "dialog", {
+      id: record.id,
+      dialogType: record.type,
+      message: record.message,
+      handled: record.handled,
+    });
+  });
+
+  page.on("popup", (popup) => {
+    bus.publish(name, "popup", { url: popup.url() });
+  });
+
+  page.on("download", (download) => {
+    bus.publish(name, "download", {
+      url: download.url(),
+      suggestedFilename: download.suggestedFilename(),
+    });
+  });
+
+  page.on("crash", () => bus.publish(name, "crash"));
+  page.on("close", () => bus.publish(name, "close"));
+}
@@ -0,0 +1,224 @@
+// HAR 1.2 recorder for a single page
+// Built from page request events rather than Playwright's recordHar, which only works at
+// context creation - this way recording also works on the persistent and user-mode contexts
+
+import type { Page, Request as PwRequest } from "playwright";
+
+export interface HarRecorderOptions {
+  /** Include response bodies (default: false) */
+  bodies?: boolean;
+  /** Max body size in bytes to embed when bodies are on (default: 1 MB) */
+  maxBodySize?: number;
+}
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  pageref: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string; encoding?: string; comment?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    ssl: number;
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  serverIPAddress?: string;
+  _resourceType: string;
+  _failureText?: string;
+}
+
+export interface Har {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    pages: Array<{
+      startedDateTime: string;
+      id: string;
+      title: string;
+      pageTimings: { onContentLoad: number; onLoad: number };
+    }>;
+    entries: HarEntry[];
+  };
+}
+
+const PAGE_ID = "page_1";
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+const TEXT_MIME = /^text\/|json|javascript|xml|html|css|x-www-form-urlencoded|svg/i;
+
+// Duration between two timing marks, -1 when either is unavailable
+function span(start: number, end: number): number {
+  return start >= 0 && end >= 0 ? Math.max(0, end - start) : -1;
+}
+
+async function buildEntry(request: PwRequest, options: Required<HarRecorderOptions>) {
+  const timing = request.timing();
+  const response = await request.response().catch(() => null);
+  const failure = request.failure();
+  const url = new URL(request.url());
+
+  const requestHeaders = await request.headersArray().catch(() => []);
+  const postData = request.postData();
+
+  let content: HarEntry["response"]["content"] = { size: 0, mimeType: "x-unknown" };
+  let responseHeaders: HarNameValue[] = [];
+  if (response) {
+    responseHeaders = await response.headersArray().catch(() => []);
+    const mimeType = (await response.headerValue("content-type").catch(() => null)) ?? "x-unknown";
+    content = { size: -1, mimeType };
+    if (options.bodies) {
+      try {
+        const body = await response.body();
+        content.size = body.length;
+        if (body.length > options.maxBodySize) {
+          content.comment = `Body omitted: ${body.length} bytes exceeds limit of ${options.maxBodySize}`;
+        } else if (TEXT_MIME.test(mimeType)) {
+          content.text = body.toString("utf-8");
+        } else {
+          content.text = body.toString("base64");
+          content.encoding = "base64";
+        }
+      } catch {
+        // Redirects and some cached responses have no body
+      }
+    }
+  }
+
+  const sizes = response ? await request.sizes().catch(() => null) : null;
+  const timings = {
+    blocked: -1,
+    dns: span(timing.domainLookupStart, timing.domainLookupEnd),
+    connect: span(timing.connectStart, timing.connectEnd),
+    ssl: span(timing.secureConnectionStart, timing.connectEnd),
+    send: 0,
+    wait: Math.max(0, span(timing.requestStart, timing.responseStart)),
+    receive: Math.max(0, span(timing.responseStart, timing.responseEnd)),
+  };
+  const time = Object.values(timings).reduce((sum, t) => (t > 0 ? sum + t : sum), 0);
+  const serverAddr = response ? await response.serverAddr().catch(() => null) : null;
+
+  const entry: HarEntry = {
+    pageref: PAGE_ID,
+    startedDateTime: new Date(timing.startTime).toISOString(),
+    time,
+    request: {
+      method: request.method(),
+      url: request.url(),
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: requestHeaders,
+      queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+      postData: postData
+        ? {
+            mimeType: (await request.headerValue("content-type").catch(() => null)) ?? "",
+            text: postData.slice(0, options.maxBodySize),
+          }
+        : undefined,
+      headersSize: sizes?.requestHeadersSize ?? -1,
+      bodySize: sizes?.requestBodySize ?? (postData ? postData.length : 0),
+    },
+    response: {
+      status: response?.status() ?? 0,
+      statusText: response?.statusText() ?? "",
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: responseHeaders,
+      content,
+      redirectURL: (await response?.headerValue("location").catch(() => null)) ?? "",
+      headersSize: sizes?.responseHeadersSize ?? -1,
+      bodySize: sizes?.responseBodySize ?? -1,
+    },
+    cache: {},
+    timings,
+    serverIPAddress: serverAddr?.ipAddress,
+    _resourceType: request.resourceType(),
+    _failureText: failure?.errorText,
+  };
+  return entry;
+}
+
+/**
+ * Start recording every request/response on a page.
+ * Call stop() to detach the listeners and get the HAR document.
+ */
+export function startHarRecording(page: Page, options: HarRecorderOptions = {}) {
+  const resolved: Required<HarRecorderOptions> = {
+    bodies: options.bodies ?? false,
+    maxBodySize: options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE,
+  };
+  const startedDateTime = new Date().toISOString();
+  const pending: Array<Promise<HarEntry | null>> = [];
+
+  const onDone = (request: PwRequest) => {
+    pending.push(buildEntry(request, resolved).catch(() => null));
+  };
+  page.on("requestfinished", onDone);
+  page.on("requestfailed", onDone);
+
+  return {
+    startedDateTime,
+    options: resolved,
+
+    get count(): number {
+      return pending.length;
+    },
+
+    async stop(): Promise<Har> {
+      page.off("requestfinished", onDone);
+      page.off("requestfailed", onDone);
+
+      const entries = (await Promise.all(pending))
+        .filter((e): e is HarEntry => e !== null)
+        .sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+      const title = await page.title().catch(() => "");
+
+      return {
+        log: {
+          version: "1.2",
+          creator: { name: "dev-browser", version: "0.0.1" },
+          pages: [
+            {
+              startedDateTime,
+              id: PAGE_ID,
+              title: title || page.url(),
+              pageTimings: { onContentLoad: -1, onLoad: -1 },
+            },
+          ],
+          entries,
+        },
+      };
+    },
+  };
+}
+
+export type HarRecording = ReturnType<typeof startHarRecording>;
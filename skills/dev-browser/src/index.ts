@@ -1,7 +1,7 @@
 import express, { type Express, type Request, type Response } from "express";
-import { chromium, type BrowserContext, type Page } from "playwright";
-import { mkdirSync, existsSync, readFileSync, writeFileSync } from "fs";
-import { join } from "path";
+import { chromium, type BrowserContext, type CDPSession, type ElementHandle, type Page } from "playwright";
+import { mkdirSync, existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, isAbsolute, join } from "path";
 import type { Socket } from "net";
 import type {
   ServeOptions,
@@ -9,10 +9,163 @@ import type {
   GetPageResponse,
   ListPagesResponse,
   ServerInfoResponse,
+  SnapshotResponse,
+  ActionsRequest,
+  ActionsResponse,
+  ConsoleResponse,
+  PageEvent,
+  PageEventType,
+  HarStartRequest,
+  HarStopRequest,
+  HarStopResponse,
+  RouteRuleInput,
+  RouteRule,
+  RoutesResponse,
+  FileOverrideInput,
+  FileOverride,
+  OverridesResponse,
+  ContextsResponse,
+  SavedState,
+  StateExportRequest,
+  StateFileRequest,
+  StateResponse,
+  DeviceInfo,
+  EmulateRequest,
+  EmulateResponse,
+  ThrottleConditions,
+  ThrottlePreset,
+  ThrottleRequest,
+  ThrottleResponse,
+  VitalsReport,
+  VitalsRequest,
+  DialogPolicy,
+  DialogRecord,
+  DialogsResponse,
+  DialogResponseRequest,
+  DownloadRecord,
+  DownloadsResponse,
+  PdfRequest,
+  PdfResponse,
+  ScreenshotRequest,
+  ScreenshotResponse,
+  TraceStartRequest,
+  TraceStartResponse,
+  TraceStopRequest,
+  TraceStopResponse,
+  ScreencastStartRequest,
+  ScreencastStartResponse,
+  ScreencastStopRequest,
+  ScreencastStopResponse,
+  CoverageStartRequest,
+  CoverageStartResponse,
+  CoverageStopRequest,
+  CoverageRange,
+  CoverageFile,
+  CoverageTotals,
+  CoverageReport,
+  A11yRule,
+  A11yAuditRequest,
+  A11yFinding,
+  A11yAuditResponse,
+  ContrastLevel,
+  ContrastRequest,
+  ContrastResult,
+  ContrastResponse,
 } from "./types";
+import { getSnapshotScript } from "./snapshot/browser-script";
+import { isSnapshotRef, resolveRef } from "./refs";
+import { evaluateCode, runActions } from "./actions";
+import { attachConsoleCapture, createConsoleBuffer, type ConsoleBuffer } from "./console-buffer";
+import {
+  attachPageEvents,
+  createEventBus,
+  publishConsoleEntry,
+  PAGE_EVENT_TYPES,
+} from "./events";
+import { startHarRecording, type HarRecording } from "./har";
+import { createRouteTable, validateRouteRule, type RouteTable } from "./intercept";
+import { createOverrideTable, validateFileOverride, type OverrideTable } from "./overrides";
+import { applyState, captureState, loadStateFile, saveStateFile, stateSeedingReady } from "./storage-state";
+import { applyDevice, clearDevice, findDevice, listDevices } from "./emulation";
+import { applyThrottle, clearThrottle, resolveThrottle } from "./throttle";
+import { collectVitals, installVitals } from "./vitals";
+import { createDialogLog, validateDialogPolicy, type DialogLog } from "./dialogs";
+import { createDownloadStore } from "./downloads";
+import { printInHeadless, toPdfOptions, validatePdfRequest } from "./pdf";
+import { takeScreenshot, validateScreenshotRequest } from "./screenshot";
+import { createTraceRecorder } from "./tracing";
+import { startScreencast, validateScreencastRequest, type Screencast } from "./screencast";
+import { startCoverage, type CoverageSession } from "./coverage";
 import { humanMouseMove, getElementCenter, startIdleMovement, stopIdleMovement } from "./mouse-human";
 
-export type { ServeOptions, GetPageResponse, ListPagesResponse, ServerInfoResponse };
+export type {
+  ServeOptions,
+  GetPageResponse,
+  ListPagesResponse,
+  ServerInfoResponse,
+  SnapshotResponse,
+  ActionsRequest,
+  ActionsResponse,
+  ConsoleResponse,
+  PageEvent,
+  PageEventType,
+  HarStartRequest,
+  HarStopRequest,
+  HarStopResponse,
+  RouteRuleInput,
+  RouteRule,
+  RoutesResponse,
+  FileOverrideInput,
+  FileOverride,
+  OverridesResponse,
+  ContextsResponse,
+  SavedState,
+  StateExportRequest,
+  StateFileRequest,
+  StateResponse,
+  DeviceInfo,
+  EmulateRequest,
+  EmulateResponse,
+  ThrottleConditions,
+  ThrottlePreset,
+  ThrottleRequest,
+  ThrottleResponse,
+  VitalsReport,
+  VitalsRequest,
+  DialogPolicy,
+  DialogRecord,
+  DialogsResponse,
+  DialogResponseRequest,
+  DownloadRecord,
+  DownloadsResponse,
+  PdfRequest,
+  PdfResponse,
+  ScreenshotRequest,
+  ScreenshotResponse,
+  TraceStartRequest,
+  TraceStartResponse,
+  TraceStopRequest,
+  TraceStopResponse,
+  ScreencastStartRequest,
+  ScreencastStartResponse,
+  ScreencastStopRequest,
+  ScreencastStopResponse,
+  CoverageStartRequest,
+  CoverageStartResponse,
+  CoverageStopRequest,
+  CoverageRange,
+  CoverageFile,
+  CoverageTotals,
+  CoverageReport,
+  A11yRule,
+  A11yAuditRequest,
+  A11yFinding,
+  A11yAuditResponse,
+  ContrastLevel,
+  ContrastRequest,
+  ContrastResult,
+  ContrastResponse,
+};
 
 export interface DevBrowserServer {
   wsEndpoint: string;
@@ -205,7 +358,16 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     } catch {
       console.log("Browser context is dead — relaunching...");
       registry.clear();
+      // Isolated contexts lived in the same browser process
+      isolatedContexts.clear();
+      isolationBrowser = null;
+      const overrides = contextOverrides.list();
+      await contextOverrides.clear();
       await launchBrowserContext();
+      // Context-wide overrides are server state - carry them over to the new context
+      for (const override of overrides) {
+        await contextOverrides.add(override);
+      }
       console.log("Browser relaunched successfully");
     }
   }
@@ -253,7 +415,7 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     if (browserMode !== "stealth") return;
 
     try {
-      const cdpSession = await context.newCDPSession(page);
+      const cdpSession = await page.context().newCDPSession(page);
       await cdpSession.send("Page.addScriptToEvaluateOnNewDocument", {
         source: STEALTH_SCRIPT,
       });
@@ -265,18 +427,129 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     }
   }
 
+  const DEFAULT_CONTEXT = "default";
+
   // Registry entry type for page tracking
   interface PageEntry {
     page: Page;
     targetId: string;
+    console: ConsoleBuffer;
+    har?: HarRecording;
+    routes: RouteTable;
+    overrides: OverrideTable;
+    /** Dialog policy and the dialogs seen so far */
+    dialogs: DialogLog;
+    /** Browser context name ("default" = the persistent/user context) */
+    context: string;
+    /** Registry name of the page that opened this one (popups only) */
+    opener?: string;
+    /** Names given to popups this page opened, in order */
+    popups: string[];
+    /** Project prefix (downloads directory), when the creator passed one */
+    project?: string;
+    /** Long-lived CDP session for emulation overrides (created on first use) */
+    cdp?: CDPSession;
+    /** Active device emulation and the UA to restore on reset */
+    emulation?: { device: DeviceInfo; userAgent: string };
+    /** Active network/CPU throttling */
+    throttle?: ThrottleConditions;
+    /** Web vitals observers registered as an init script */
+    vitals?: boolean;
+    /** Active screencast recording */
+    screencast?: Screencast;
+    /** Active JS/CSS coverage collection */
+    coverage?: CoverageSession;
   }
 
   // Registry: name -> PageEntry
   const registry = new Map<string, PageEntry>();
 
+  // Page activity fan-out for GET /events subscribers
+  const events = createEventBus();
+
+  // Reload every registry page in a context (watched override changed)
+  const reloadContextPages = (contextName: string) => async () => {
+    const pages = [...registry.values()].filter((e) => e.context === contextName);
+    await Promise.all(pages.map((e) => e.page.reload().catch(() => null)));
+  };
+
+  // Context-wide file overrides for the default context (POST /overrides) - served to all its pages
+  const contextOverrides = createOverrideTable(
+    {
+      route: (url, handler) => context.route(url, handler),
+      unroute: (url, handler) => context.unroute(url, handler),
+    },
+    reloadContextPages(DEFAULT_CONTEXT)
+  );
+
+  // Isolated contexts: name -> entry. Each has its own cookies and storage.
+  // Ephemeral ones are disposed with their last page; persisted ones keep their
+  // storageState in contextsDir so they survive page closes and server restarts.
+  interface ContextEntry {
+    context: BrowserContext;
+    persist: boolean;
+    overrides: OverrideTable;
+  }
+  const isolatedContexts = new Map<string, ContextEntry>();
+  const contextsDir = profileDir ? join(profileDir, "contexts") : join(process.cwd(), ".browser-contexts");
+
+  // The persistent context has no Browser object to create contexts from, so dev/stealth
+  // modes connect to their own CDP endpoint once; user mode reuses its connection
+  let isolationBrowser: typeof browser = null;
+  async function getIsolationBrowser() {
+    if (browser) return browser;
+    if (!isolationBrowser || !isolationBrowser.isConnected()) {
+      isolationBrowser = await chromium.connectOverCDP(wsEndpoint);
+    }
+    return isolationBrowser;
+  }
+
+  function contextStatePath(name: string): string {
+    return join(contextsDir, `${name}.json`);
+  }
+
+  async function getOrCreateContext(name: string, persist: boolean): Promise<ContextEntry> {
+    const existing = isolatedContexts.get(name);
+    if (existing) return existing;
+
+    const statePath = contextStatePath(name);
+    const restore = persist && existsSync(statePath);
+    const isolated = await (await getIsolationBrowser()).newContext({
+      storageState: restore ? statePath : undefined,
+    });
+    const entry: ContextEntry = {
+      context: isolated,
+      persist,
+      overrides: createOverrideTable(isolated, reloadContextPages(name)),
+    };
+    isolatedContexts.set(name, entry);
+    console.log(`Context "${name}" created (${persist ? "persisted" : "ephemeral"}${restore ? ", state restored" : ""})`);
+    return entry;
+  }
+
+  async function saveContextState(name: string, entry: ContextEntry): Promise<void> {
+    mkdirSync(contextsDir, { recursive: true });
+    await entry.context.storageState({ path: contextStatePath(name) });
+  }
+
+  // Called when a page closes - save persisted state, dispose ephemeral contexts with no pages left
+  async function releaseContext(name: string): Promise<void> {
+    const entry = isolatedContexts.get(name);
+    if (!entry) return;
+    if (entry.persist) {
+      await saveContextState(name, entry).catch((err) => console.warn(`Failed to save context "${name}":`, err));
+      return;
+    }
+    if ([...registry.values()].some((e) => e.context === name)) return;
+    isolatedContexts.delete(name);
+    await entry.overrides.clear();
+    await entry.context.close().catch(() => {});
+    console.log(`Context "${name}" disposed (last page closed)`);
+  }
+
   // Helper to get CDP targetId for a page
   async function getTargetId(page: Page): Promise<string> {
-    const cdpSession = await context.newCDPSession(page);
+    const cdpSession = await page.context().newCDPSession(page);
     try {
       const { targetInfo } = await cdpSession.send("Target.getTargetInfo");
       return targetInfo.targetId;
@@ -306,23 +579,191 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     }
   });
 
+  // GET /events?page=a,b&type=console,dialog - live page activity as Server-Sent Events
+  app.get("/events", (req: Request, res: Response) => {
+    const { page, type } = req.query as { page?: string; type?: string };
+    const pages = page ? page.split(",").map((p) => p.trim()) : undefined;
+    const types = type ? (type.split(",").map((t) => t.trim()) as PageEventType[]) : undefined;
+
+    const unknown = types?.filter((t) => !PAGE_EVENT_TYPES.includes(t));
+    if (unknown?.length) {
+      res.status(400).json({
+        error: `Unknown event type(s): ${unknown.join(", ")}. Use: ${PAGE_EVENT_TYPES.join(", ")}`,
+      });
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(": connected\n\n");
+
+    const unsubscribe = events.subscribe({ pages, types }, (event: PageEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    // Comment heartbeat keeps proxies and idle timeouts from closing the stream
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
   // GET /pages - list all pages
   app.get("/pages", (_req: Request, res: Response) => {
     const response: ListPagesResponse = {
       pages: Array.from(registry.keys()),
     };
-    // Include target IDs for cleanup cross-referencing
+    // Include target IDs for cleanup cross-referencing, the context each page lives in
+    // and which page opened each popup
     const targets: Record<string, string> = {};
+    const contexts: Record<string, string> = {};
+    const openers: Record<string, string> = {};
     for (const [name, entry] of registry.entries()) {
       targets[name] = entry.targetId;
+      contexts[name] = entry.context;
+      if (entry.opener) openers[name] = entry.opener;
     }
-    res.json({ ...response, targets });
+    res.json({ ...response, targets, contexts, openers });
+  });
+
+  // GET /contexts - list browser contexts with their pages
+  app.get("/contexts", (_req: Request, res: Response) => {
+    const pagesIn = (contextName: string) =>
+      [...registry.entries()].filter(([, e]) => e.context === contextName).map(([name]) => name);
+    const response: ContextsResponse = {
+      contexts: [
+        { name: DEFAULT_CONTEXT, persist: true, pages: pagesIn(DEFAULT_CONTEXT) },
+        ...[...isolatedContexts.entries()].map(([name, entry]) => ({
+          name,
+          persist: entry.persist,
+          pages: pagesIn(name),
+        })),
+      ],
+    };
+    res.json(response);
   });
 
+  // Downloads, traces, screencasts, coverage reports, HARs, screenshots and PDFs, saved under <tmpDir>/<project>/<kind>
+  // unless a path is given
+  const artifactsRoot = options.tmpDir ?? join(process.cwd(), ".browser-artifacts");
+  const artifactDir = (
+    project: string | undefined,
+    kind: "downloads" | "traces" | "videos" | "coverage" | "har" | "screenshots" | "pdfs"
+  ) =>
+    join(artifactsRoot, project ?? "shared", kind);
+  const fileStem = (name: string) => `${name.replace(/[^\w.~-]+/g, "_")}-${Date.now()}`;
+
+  const downloads = createDownloadStore();
+  const traces = createTraceRecorder();
+  const defaultTracePath = (name: string, project?: string) =>
+    join(artifactDir(project, "traces"), `${fileStem(name)}.zip`);
+
+  // Popups still being registered (name -> registration), so responses can wait for them
+  const popupRegistrations = new Map<string, Promise<void>>();
+
+  // Wire up a page (console capture, events, dialogs, stealth, routing) and add it to the registry.
+  // Used for pages created through POST /pages and for popups they open
+  async function registerPage(
+    name: string,
+    page: Page,
+    options: { context: string; project?: string; dialogs?: DialogPolicy; opener?: string }
+  ): Promise<PageEntry> {
+    const { context: contextName, project, opener } = options;
+    // Capture console/pageerror/requestfailed from the start so nothing is missed between commands
+    const consoleBuffer = createConsoleBuffer();
+    attachConsoleCapture(page, consoleBuffer, (e) => publishConsoleEntry(events, name, e));
+    const dialogs = createDialogLog(options.dialogs);
+    attachPageEvents(page, name, events, dialogs);
+
+    // Inject stealth scripts for stealth mode
+    await injectStealthScripts(page);
+    // Storage from an imported state must be in place before the first navigation
+    await stateSeedingReady(page);
+
+    // Start idle mouse jitter in stealth mode
+    if (browserMode === "stealth") {
+      startIdleMovement(page);
+    }
+
+    const targetId = await getTargetId(page);
+    const overrides = createOverrideTable(page, async () => {
+      await page.reload({ waitUntil: "domcontentloaded" });
+    });
+    const entry: PageEntry = {
+      page,
+      targetId,
+      console: consoleBuffer,
+      routes: createRouteTable(page),
+      overrides,
+      dialogs,
+      context: contextName,
+      opener,
+      popups: [],
+      project,
+    };
+    registry.set(name, entry);
+
+    // target=_blank links and window.open - register as "<name>~popupN" so they aren't orphans
+    page.on("popup", (popup) => {
+      let n = entry.popups.length + 1;
+      while (registry.has(`${name}~popup${n}`) || popupRegistrations.has(`${name}~popup${n}`)) n++;
+      const popupName = `${name}~popup${n}`;
+      entry.popups.push(popupName);
+      const registration = registerPage(popupName, popup, {
+        context: contextName,
+        project,
+        dialogs: dialogs.policy,
+        opener: name,
+      })
+        .then(() => console.log(`Popup "${popupName}" → opened by "${name}", url=${popup.url()}`))
+        .catch((err) => console.warn(`Failed to register popup "${popupName}":`, err))
+        .finally(() => popupRegistrations.delete(popupName));
+      popupRegistrations.set(popupName, registration);
+    });
+
+    // Save every download into the project's downloads dir
+    page.on("download", (download) => {
+      const dir = artifactDir(project, "downloads");
+      downloads
+        .capture(download, name, dir)
+        .then((d) => console.log(`Download "${name}" → ${d.status === "complete" ? `${d.path} (${d.size} bytes)` : `failed: ${d.error}`}`))
+        .catch((err) => console.warn(`Download "${name}" failed:`, err));
+    });
+
+    // Clean up registry when page is closed (e.g., user clicks X)
+    page.on("close", () => {
+      stopIdleMovement(page);
+      const screencast = registry.get(name)?.screencast;
+      if (screencast) {
+        screencast
+          .finish(join(artifactDir(project, "videos"), `${fileStem(name)}.webm`), "page-closed")
+          .then((v) => console.log(`Screencast "${name}" → ${v.path} (page closed)`))
+          .catch(() => {});
+      }
+      // Keep the trace of a page that went away - it's usually the interesting one. Tracing
+      // belongs to the context, so it has to stop before the context may be disposed.
+      const trace = traces.isRecording(name)
+        ? traces
+            .stop(name, defaultTracePath(name, project))
+            .then((t) => console.log(`Trace "${name}" → ${t?.path} (page closed)`))
+            .catch((err) => console.error(`Failed to save trace for "${name}":`, err))
+        : Promise.resolve();
+      overrides.clear().catch(() => {});
+      registry.delete(name);
+      trace.then(() => releaseContext(contextName)).catch(() => {});
+    });
+    return entry;
+  }
+
   // POST /pages - get or create page
   app.post("/pages", async (req: Request, res: Response) => {
     const body = req.body as GetPageRequest;
-    const { name } = body;
+    const { name, persist = false } = body;
+    const contextName = body.context ?? DEFAULT_CONTEXT;
 
     if (!name || typeof name !== "string") {
       res.status(400).json({ error: "name is required and must be a string" });
@@ -339,6 +780,18 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
       return;
     }
 
+    // Context names become state file names
+    if (typeof contextName !== "string" || !/^[\w.-]{1,64}$/.test(contextName)) {
+      res.status(400).json({ error: "context must be 1-64 characters of letters, digits, '.', '_' or '-'" });
+      return;
+    }
+
+    const policyError = body.dialogs !== undefined ? validateDialogPolicy(body.dialogs) : null;
+    if (policyError) {
+      res.status(400).json({ error: `dialogs: ${policyError}` });
+      return;
+    }
+
     // Check if page already exists and is still alive
     let entry = registry.get(name);
     if (entry) {
@@ -358,41 +811,47 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
         // Page is truly dead/closed — remove stale entry and recreate
         console.log(`Page "${name}" was stale, recreating...`);
         registry.delete(name);
+        await releaseContext(entry.context).catch((err) => console.warn(`Failed to release context "${entry!.context}":`, err));
         entry = undefined;
       }
     }
+    if (entry && body.context !== undefined && entry.context !== contextName) {
+      res.status(409).json({ error: `Page "${name}" already exists in context "${entry.context}"` });
+      return;
+    }
+    const existingContext = isolatedContexts.get(contextName);
+    if (existingContext && body.persist !== undefined && existingContext.persist !== persist) {
+      res.status(409).json({
+        error: `Context "${contextName}" already exists as ${existingContext.persist ? "persisted" : "ephemeral"}`,
+      });
+      return;
+    }
     if (!entry) {
       // Ensure browser context is alive (auto-relaunch if crashed)
       await ensureContext();
-      // Create new page in the persistent context (with timeout to prevent hangs)
-      const page = await withTimeout(context.newPage(), 30000, "Page creation timed out after 30s");
-
-      // Inject stealth scripts for stealth mode
-      await injectStealthScripts(page);
-
-      // Start idle mouse jitter in stealth mode
-      if (browserMode === "stealth") {
-        startIdleMovement(page);
-      }
-
-      const targetId = await getTargetId(page);
-      entry = { page, targetId };
-      registry.set(name, entry);
-
-      // Clean up registry when page is closed (e.g., user clicks X)
-      page.on("close", () => {
-        stopIdleMovement(page);
-        registry.delete(name);
+      const pageContext =
+        contextName === DEFAULT_CONTEXT ? context : (await getOrCreateContext(contextName, persist)).context;
+      // Create new page in the requested context (with timeout to prevent hangs)
+      const page = await withTimeout(pageContext.newPage(), 30000, "Page creation timed out after 30s");
+      entry = await registerPage(name, page, {
+        context: contextName,
+        project: body.project,
+        dialogs: body.dialogs,
       });
     }
 
     // Debug: log what we're returning
     try {
       const url = entry.page.url();
-      console.log(`POST /pages "${name}" → targetId=${entry.targetId}, url=${url}`);
+      console.log(`POST /pages "${name}" → targetId=${entry.targetId}, context=${entry.context}, url=${url}`);
     } catch { /* ignore */ }
 
-    const response: GetPageResponse = { wsEndpoint, name, targetId: entry.targetId };
+    const response: GetPageResponse = {
+      wsEndpoint,
+      name,
+      targetId: entry.targetId,
+      context: entry.context,
+    };
     res.json(response);
   });
 
@@ -413,6 +872,7 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
 
   // POST /pages/:name/screenshot - take screenshot using server's Page object
   // This avoids stale CDP reconnection issues
+  // Captures the page, an element (selector/ref) or a clip region; returns a file path or base64
   app.post("/pages/:name/screenshot", async (req: Request<{ name: string }>, res: Response) => {
     const name = decodeURIComponent(req.params.name);
     const entry = registry.get(name);
@@ -422,15 +882,50 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
       return;
     }
 
+    const body = (req.body ?? {}) as ScreenshotRequest;
+    const invalid = validateScreenshotRequest(body);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
     try {
-      const { path: savePath, fullPage } = req.body as { path?: string; fullPage?: boolean };
-      const screenshotPath = savePath || `/tmp/screenshot-${Date.now()}.png`;
-      await entry.page.screenshot({ path: screenshotPath, fullPage: fullPage !== false });
+      let element: ElementHandle | undefined;
+      if (body.ref) {
+        const ref = await resolveRef(entry.page, body.ref);
+        if ("error" in ref) { const { status, ...err } = ref; res.status(status).json(err); return; }
+        element = ref.element;
+      } else if (body.selector) {
+        const handle = await entry.page.locator(body.selector).first().elementHandle({ timeout: 5000 }).catch(() => null);
+        if (!handle) { res.status(404).json({ error: `No element matches selector: ${body.selector}` }); return; }
+        element = handle;
+      }
+
+      const shot = await takeScreenshot(entry.page, body, element);
       const url = entry.page.url();
       const vp = entry.page.viewportSize() ?? await entry.page.evaluate(() => ({ width: window.innerWidth, height: window.innerHeight })).catch(() => null);
       const vpStr = vp ? `${vp.width}x${vp.height}` : 'unknown';
-      console.log(`Screenshot "${name}" → ${screenshotPath} (url=${url})`);
-      res.json({ success: true, path: screenshotPath, url, viewport: vpStr });
+      const response: ScreenshotResponse = {
+        success: true,
+        mimeType: shot.mimeType,
+        width: shot.width,
+        height: shot.height,
+        resized: shot.resized,
+        url,
+        viewport: vpStr,
+      };
+      if (body.base64) {
+        response.base64 = shot.buffer.toString("base64");
+        console.log(`Screenshot "${name}" → base64 ${shot.width}x${shot.height} ${shot.mimeType} (url=${url})`);
+      } else {
+        const ext = body.format === "jpeg" ? "jpg" : (body.format ?? "png");
+        const screenshotPath = body.path || join(artifactDir(entry.project, "screenshots"), `${fileStem(name)}.${ext}`);
+        mkdirSync(dirname(screenshotPath), { recursive: true });
+        writeFileSync(screenshotPath, shot.buffer);
+        response.path = screenshotPath;
+        console.log(`Screenshot "${name}" → ${screenshotPath} (url=${url})`);
+      }
+      res.json(response);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       res.status(500).json({ error: msg });
@@ -449,19 +944,7 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
 
     try {
       const { code } = req.body as { code: string };
-      const result = await entry.page.evaluate((js: string) => {
-        try {
-          const fn = new Function(`return (${js})`);
-          const res = fn();
-          if (res && typeof res.then === 'function') {
-            return res.then((r: unknown) => ({ success: true, result: r }));
-          }
-          return { success: true, result: res };
-        } catch {
-          try { const fn = new Function(js); fn(); return { success: true, result: undefined }; }
-          catch (e: unknown) { return { success: false, error: e instanceof Error ? e.message : String(e) }; }
-        }
-      }, code);
+      const result = await evaluateCode(entry.page, code);
       res.json(result);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -549,7 +1032,115 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     }
   });
 
-  // POST /pages/:name/click - click element by text or CSS selector
+  // GET /pages/:name/snapshot - ARIA snapshot using server's Page object
+  // Refs are kept on window.__devBrowserRefs so later ref-based actions still resolve
+  app.get("/pages/:name/snapshot", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { entry } = r;
+    try {
+      const result = await entry.page.evaluate((script: string) => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const w = globalThis as any;
+        if (!w.__devBrowser_getAISnapshot) {
+          // eslint-disable-next-line no-eval
+          eval(script);
+        }
+        const snapshot: string = w.__devBrowser_getAISnapshot();
+        return { snapshot, refCount: Object.keys(w.__devBrowserRefs ?? {}).length };
+      }, getSnapshotScript());
+      const response: SnapshotResponse = { ...result, url: entry.page.url() };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/a11y - accessibility audit on the snapshot engine; findings carry refs
+  // (refreshed like GET /snapshot) and selectors
+  const a11yRules: A11yRule[] = [
+    "empty-name",
+    "missing-label",
+    "placeholder-label",
+    "img-alt",
+    "heading-order",
+    "no-pointer-events",
+    "duplicate-id",
+    "missing-id-ref",
+  ];
+  app.post("/pages/:name/a11y", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { entry } = r;
+    const { rules } = (req.body ?? {}) as A11yAuditRequest;
+    const unknown = rules?.find((rule) => !a11yRules.includes(rule));
+    if (unknown) {
+      res.status(400).json({ error: `Unknown rule "${unknown}" - available: ${a11yRules.join(", ")}` });
+      return;
+    }
+    try {
+      const all = await entry.page.evaluate((script: string) => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const w = globalThis as any;
+        if (!w.__devBrowser_auditA11y) {
+          // eslint-disable-next-line no-eval
+          eval(script);
+        }
+        // A page injected by an older server keeps its old script until it reloads
+        if (!w.__devBrowser_auditA11y) throw new Error("Snapshot script predates the audit - reload the page");
+        return w.__devBrowser_auditA11y() as A11yFinding[];
+      }, getSnapshotScript());
+      const findings = rules?.length ? all.filter((f) => rules.includes(f.rule)) : all;
+      const response: A11yAuditResponse = {
+        url: entry.page.url(),
+        findings,
+        errors: findings.filter((f) => f.severity === "error").length,
+        warnings: findings.filter((f) => f.severity === "warning").length,
+      };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/contrast - WCAG contrast of visible text, with snapshot refs
+  app.post("/pages/:name/contrast", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { entry } = r;
+    const { level = "AA", all = false } = (req.body ?? {}) as ContrastRequest;
+    if (level !== "AA" && level !== "AAA") {
+      res.status(400).json({ error: "level must be AA or AAA" });
+      return;
+    }
+    try {
+      const results = await entry.page.evaluate((script: string) => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const w = globalThis as any;
+        if (!w.__devBrowser_checkContrast) {
+          // eslint-disable-next-line no-eval
+          eval(script);
+        }
+        if (!w.__devBrowser_checkContrast) throw new Error("Snapshot script predates the contrast check - reload the page");
+        return w.__devBrowser_checkContrast() as ContrastResult[];
+      }, getSnapshotScript());
+      const status = (c: ContrastResult) => (level === "AA" ? c.aa : c.aaa);
+      const response: ContrastResponse = {
+        url: entry.page.url(),
+        level,
+        checked: results.length,
+        passed: results.filter((c) => status(c) === "pass").length,
+        failed: results.filter((c) => status(c) === "fail").length,
+        unknown: results.filter((c) => status(c) === "unknown").length,
+        results: all ? results : results.filter((c) => status(c) !== "pass"),
+      };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/click - click element by snapshot ref, text or CSS selector
   app.post("/pages/:name/click", async (req: Request<{ name: string }>, res: Response) => {
     const r = getPageEntry(req, res);
     if (!r) return;
@@ -557,6 +1148,8 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     try {
       const { target } = req.body as { target: string };
       if (!target) { res.status(400).json({ error: "target is required" }); return; }
+      const dialogsBefore = entry.dialogs.lastId;
+      const popupsBefore = entry.popups.length;
 
       let clickedType = "";
       let clicked = false;
@@ -571,8 +1164,23 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
         } catch { /* element may not be visible yet */ }
       };
 
+      // Snapshot ref (e.g. e12) from the ARIA snapshot
+      if (isSnapshotRef(target)) {
+        const ref = await resolveRef(entry.page, target);
+        if ("error" in ref) { const { status, ...body } = ref; res.status(status).json(body); return; }
+        if (browserMode === "stealth") {
+          const box = await ref.element.boundingBox();
+          if (box) {
+            await humanMouseMove(entry.page, box.x + box.width / 2, box.y + box.height / 2);
+            await new Promise(r => setTimeout(r, 50 + Math.random() * 100));
+          }
+        }
+        await ref.element.click({ timeout: 5000 });
+        clickedType = "ref";
+        clicked = true;
+      }
       // Try button role
-      try { const loc = entry.page.getByRole("button", { name: target }); await stealthMoveToLocator(loc); await loc.click({ timeout: 3000 }); clickedType = "button"; clicked = true; } catch {}
+      if (!clicked) { try { const loc = entry.page.getByRole("button", { name: target }); await stealthMoveToLocator(loc); await loc.click({ timeout: 3000 }); clickedType = "button"; clicked = true; } catch {} }
       // Try link role
       if (!clicked) { try { const loc = entry.page.getByRole("link", { name: target }); await stealthMoveToLocator(loc); await loc.click({ timeout: 3000 }); clickedType = "link"; clicked = true; } catch {} }
       // Try frames
@@ -625,7 +1233,14 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
         buttons: [...document.querySelectorAll("button")].slice(0, 5).map(b => b.textContent?.trim()).filter(Boolean),
         links: [...document.querySelectorAll("a")].slice(0, 5).map(a => a.textContent?.trim()).filter(Boolean),
       }));
-      res.json({ clicked: target, type: clickedType, url: entry.page.url(), next: info });
+      const dialogs: DialogRecord[] = entry.dialogs.since(dialogsBefore);
+      const popups = entry.popups.slice(popupsBefore);
+      await Promise.all(popups.map((p) => popupRegistrations.get(p)));
+      res.json({
+        clicked: target, type: clickedType, url: entry.page.url(), next: info,
+        ...(dialogs.length > 0 && { dialogs }),
+        ...(popups.length > 0 && { popup: popups[popups.length - 1], popups }),
+      });
     } catch (err) {
       res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
     }
@@ -650,7 +1265,7 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     }
   });
 
-  // POST /pages/:name/fill - fill form field by name/id/label/selector
+  // POST /pages/:name/fill - fill form field by ref/name/id/label/selector
   app.post("/pages/:name/fill", async (req: Request<{ name: string }>, res: Response) => {
     const r = getPageEntry(req, res);
     if (!r) return;
@@ -673,7 +1288,14 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
         } catch { /* element may not be visible */ }
       };
 
-      if (looksLikeSelector) {
+      if (isSnapshotRef(target)) {
+        const ref = await resolveRef(entry.page, target);
+        if ("error" in ref) { const { status, ...body } = ref; res.status(status).json(body); return; }
+        await ref.element.fill(value);
+        filledWith = `ref:${target}`;
+        filled = true;
+      }
+      if (!filled && looksLikeSelector) {
         try { const el = entry.page.locator(target).first(); if (await el.count() > 0) { await stealthMoveToEl(el); await el.fill(value); filledWith = target; filled = true; } } catch {}
       }
       if (!filled) {
@@ -690,7 +1312,7 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     }
   });
 
-  // POST /pages/:name/select - select option by value
+  // POST /pages/:name/select - select option by value (target: ref, name, id or selector)
   app.post("/pages/:name/select", async (req: Request<{ name: string }>, res: Response) => {
     const r = getPageEntry(req, res);
     if (!r) return;
@@ -698,6 +1320,13 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     try {
       const { target, value } = req.body as { target: string; value: string };
       if (!target || !value) { res.status(400).json({ error: "target and value are required" }); return; }
+      if (isSnapshotRef(target)) {
+        const ref = await resolveRef(entry.page, target);
+        if ("error" in ref) { const { status, ...body } = ref; res.status(status).json(body); return; }
+        await ref.element.selectOption(value);
+        res.json({ selected: target, value });
+        return;
+      }
       const sel = /^[.#\[]/.test(target) ? target : `[name="${target}"], #${target}`;
       await entry.page.locator(sel).first().selectOption(value);
       res.json({ selected: target, value });
@@ -706,7 +1335,7 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     }
   });
 
-  // POST /pages/:name/text - get text content of element
+  // POST /pages/:name/text - get text content of element by ref or selector
   app.post("/pages/:name/text", async (req: Request<{ name: string }>, res: Response) => {
     const r = getPageEntry(req, res);
     if (!r) return;
@@ -714,6 +1343,13 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     try {
       const { target } = req.body as { target: string };
       if (!target) { res.status(400).json({ error: "target is required" }); return; }
+      if (isSnapshotRef(target)) {
+        const ref = await resolveRef(entry.page, target);
+        if ("error" in ref) { const { status, ...body } = ref; res.status(status).json(body); return; }
+        const text = await ref.element.textContent();
+        res.json({ text: text?.trim() || "" });
+        return;
+      }
       const el = entry.page.locator(target).first();
       if (await el.count() === 0) { res.status(404).json({ error: `Selector '${target}' not found` }); return; }
       const text = await el.textContent();
@@ -723,6 +1359,810 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     }
   });
 
+  // GET /pages/:name/console?since=<id>&level=error,warning - buffered console output
+  app.get("/pages/:name/console", (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    const { since, level } = req.query as { since?: string; level?: string };
+    const sinceId = since !== undefined ? Number(since) : undefined;
+    if (sinceId !== undefined && !Number.isFinite(sinceId)) {
+      res.status(400).json({ error: "since must be an entry id (number)" });
+      return;
+    }
+    const response: ConsoleResponse = {
+      name,
+      entries: entry.console.query({
+        since: sinceId,
+        levels: level ? level.split(",").map((l) => l.trim().toLowerCase()) : undefined,
+      }),
+      lastId: entry.console.lastId,
+      dropped: entry.console.dropped,
+    };
+    res.json(response);
+  });
+
+  // POST /pages/:name/actions - run an ordered batch of actions in one round trip
+  app.post("/pages/:name/actions", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    try {
+      const { actions, onError, discoverEach } = req.body as ActionsRequest;
+      if (!Array.isArray(actions) || actions.length === 0) {
+        res.status(400).json({ error: "actions must be a non-empty array" });
+        return;
+      }
+      if (onError !== undefined && onError !== "stop" && onError !== "continue") {
+        res.status(400).json({ error: "onError must be 'stop' or 'continue'" });
+        return;
+      }
+      const response: ActionsResponse = await runActions(entry.page, actions, {
+        onError,
+        discoverEach: discoverEach === true,
+        screenshotDir: artifactDir(entry.project, "screenshots"),
+      });
+      const failed = response.steps.filter((s) => s.status === "failed").length;
+      console.log(`Actions "${name}" → ${actions.length} steps, ${failed} failed (${response.duration}ms)`);
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/har/start - record requests/responses until /har/stop
+  app.post("/pages/:name/har/start", (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    if (entry.har) {
+      res.status(409).json({ error: `HAR recording already running for "${name}"` });
+      return;
+    }
+    const { bodies, maxBodySize } = (req.body ?? {}) as HarStartRequest;
+    if (maxBodySize !== undefined && (!Number.isFinite(maxBodySize) || maxBodySize < 0)) {
+      res.status(400).json({ error: "maxBodySize must be a non-negative number of bytes" });
+      return;
+    }
+    entry.har = startHarRecording(entry.page, { bodies, maxBodySize });
+    console.log(`HAR "${name}" → recording (bodies=${entry.har.options.bodies})`);
+    res.json({ success: true, startedDateTime: entry.har.startedDateTime });
+  });
+
+  // POST /pages/:name/har/stop - stop recording and write the HAR 1.2 file
+  app.post("/pages/:name/har/stop", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    const recording = entry.har;
+    if (!recording) {
+      res.status(409).json({ error: `No HAR recording running for "${name}"` });
+      return;
+    }
+    entry.har = undefined;
+    try {
+      const { path: savePath } = (req.body ?? {}) as HarStopRequest;
+      const harPath = savePath || join(artifactDir(entry.project, "har"), `${fileStem(name)}.har`);
+      const har = await recording.stop();
+      mkdirSync(dirname(harPath), { recursive: true });
+      writeFileSync(harPath, JSON.stringify(har, null, 2));
+      const response: HarStopResponse = {
+        path: harPath,
+        entries: har.log.entries.length,
+        duration: Date.now() - new Date(recording.startedDateTime).getTime(),
+      };
+      console.log(`HAR "${name}" → ${harPath} (${response.entries} entries)`);
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/screencast/start - record the page via CDP screencast until /screencast/stop
+  app.post("/pages/:name/screencast/start", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    if (entry.screencast) {
+      res.status(409).json({ error: `Screencast already recording for "${name}"` });
+      return;
+    }
+    const body = (req.body ?? {}) as ScreencastStartRequest;
+    const invalid = validateScreencastRequest(body);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+    try {
+      const framesDir = join(artifactDir(entry.project, "videos"), `.frames-${fileStem(name)}`);
+      entry.screencast = await startScreencast(entry.page, framesDir, body);
+      console.log(`Screencast "${name}" → recording (${entry.screencast.fps} fps)`);
+      const response: ScreencastStartResponse = {
+        success: true,
+        startedAt: entry.screencast.startedAt,
+        fps: entry.screencast.fps,
+      };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/screencast/stop - stop recording and encode the video
+  app.post("/pages/:name/screencast/stop", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    const screencast = entry.screencast;
+    if (!screencast) {
+      res.status(409).json({ error: `No screencast recording for "${name}"` });
+      return;
+    }
+    entry.screencast = undefined;
+    try {
+      const { path: savePath } = (req.body ?? {}) as ScreencastStopRequest;
+      const output = savePath || join(artifactDir(entry.project, "videos"), `${fileStem(name)}.webm`);
+      const response: ScreencastStopResponse = await screencast.finish(output);
+      console.log(`Screencast "${name}" → ${response.path} (${response.format}, ${response.frames} frames)`);
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/coverage/start - collect JS/CSS coverage until /coverage/stop (kept across navigations)
+  app.post("/pages/:name/coverage/start", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    if (entry.coverage) {
+      res.status(409).json({ error: `Coverage already collecting for "${name}"` });
+      return;
+    }
+    try {
+      const body = (req.body ?? {}) as CoverageStartRequest;
+      entry.coverage = await startCoverage(entry.page, body);
+      console.log(`Coverage "${name}" → collecting`);
+      const response: CoverageStartResponse = {
+        success: true,
+        startedAt: entry.coverage.startedAt,
+        js: entry.coverage.js,
+        css: entry.coverage.css,
+      };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/coverage/stop - per-file used/unused bytes, optionally as a JSON/HTML report
+  app.post("/pages/:name/coverage/stop", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    const coverage = entry.coverage;
+    if (!coverage) {
+      res.status(409).json({ error: `No coverage collecting for "${name}"` });
+      return;
+    }
+    const { report, path: reportPath } = (req.body ?? {}) as CoverageStopRequest;
+    if (report && report !== "json" && report !== "html") {
+      res.status(400).json({ error: "report must be json or html" });
+      return;
+    }
+    entry.coverage = undefined;
+    try {
+      const response: CoverageReport = await coverage.stop({
+        report,
+        path: report ? reportPath || join(artifactDir(entry.project, "coverage"), `${fileStem(name)}.${report}`) : undefined,
+      });
+      console.log(`Coverage "${name}" → ${response.files.length} files, JS ${response.js.usedPercent}% / CSS ${response.css.usedPercent}% used`);
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/trace/start - record a Playwright trace of the page's context
+  app.post("/pages/:name/trace/start", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    const owner = traces.ownerOf(entry.page.context());
+    if (owner) {
+      res.status(409).json({
+        error: owner === name
+          ? `Trace already recording for "${name}"`
+          : `Context "${entry.context}" is already being traced by "${owner}"`,
+      });
+      return;
+    }
+    try {
+      const trace = await traces.start(entry.page, name, (req.body ?? {}) as TraceStartRequest);
+      console.log(`Trace "${name}" → recording`);
+      const response: TraceStartResponse = { success: true, startedAt: trace.startedAt };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/trace/stop - stop recording and write the trace zip (or discard it)
+  app.post("/pages/:name/trace/stop", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    if (!traces.isRecording(name)) {
+      res.status(409).json({ error: `No trace recording for "${name}"` });
+      return;
+    }
+    try {
+      const { path: savePath, discard } = (req.body ?? {}) as TraceStopRequest;
+      const tracePath = discard ? null : savePath || defaultTracePath(name, entry.project);
+      const response: TraceStopResponse = (await traces.stop(name, tracePath))!;
+      console.log(`Trace "${name}" → ${response.path ?? "discarded"}`);
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/routes - register interception rules (single rule or { rules: [...] })
+  app.post("/pages/:name/routes", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    const body = (req.body ?? {}) as RouteRuleInput | { rules: RouteRuleInput[] };
+    const inputs = "rules" in body && Array.isArray(body.rules) ? body.rules : [body as RouteRuleInput];
+    for (const input of inputs) {
+      const error = validateRouteRule(input);
+      if (error) {
+        res.status(400).json({ error });
+        return;
+      }
+    }
+    try {
+      const added = [];
+      for (const input of inputs) {
+        added.push(await entry.routes.add(input));
+      }
+      console.log(`Routes "${name}" → +${added.length} (${added.map((rule) => `${rule.action} ${rule.url}`).join(", ")})`);
+      res.json({ name, rules: added });
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // GET /pages/:name/routes - list active rules with hit counts
+  app.get("/pages/:name/routes", (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const response: RoutesResponse = { name: r.name, rules: r.entry.routes.list() };
+    res.json(response);
+  });
+
+  // DELETE /pages/:name/routes - clear all rules
+  app.delete("/pages/:name/routes", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    try {
+      const removed = await r.entry.routes.clear();
+      console.log(`Routes "${r.name}" → cleared ${removed}`);
+      res.json({ success: true, removed });
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // DELETE /pages/:name/routes/:id - remove a single rule
+  app.delete("/pages/:name/routes/:id", async (req: Request<{ name: string; id: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    try {
+      if (!(await r.entry.routes.remove(req.params.id))) {
+        res.status(404).json({ error: `Route rule "${req.params.id}" not found` });
+        return;
+      }
+      res.json({ success: true, removed: 1 });
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // Shared handlers for page and context-wide file overrides
+  const addOverrides = async (table: OverrideTable, name: string, req: Request, res: Response) => {
+    const body = (req.body ?? {}) as FileOverrideInput | { overrides: FileOverrideInput[] };
+    const inputs =
+      "overrides" in body && Array.isArray(body.overrides) ? body.overrides : [body as FileOverrideInput];
+    for (const input of inputs) {
+      const error = validateFileOverride(input);
+      if (error) {
+        res.status(400).json({ error });
+        return;
+      }
+    }
+    try {
+      const added = [];
+      for (const input of inputs) {
+        added.push(await table.add(input));
+      }
+      console.log(`Overrides "${name}" → ${added.map((o) => `${o.url} ← ${o.file}${o.watch ? " (watch)" : ""}`).join(", ")}`);
+      const response: OverridesResponse = { name, overrides: added };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const removeOverrides = async (table: OverrideTable, id: string | undefined, res: Response) => {
+    try {
+      if (id === undefined) {
+        res.json({ success: true, removed: await table.clear() });
+        return;
+      }
+      if (!(await table.remove(id))) {
+        res.status(404).json({ error: `Override "${id}" not found` });
+        return;
+      }
+      res.json({ success: true, removed: 1 });
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  // POST /pages/:name/overrides - serve local files for URL globs (single or { overrides: [...] })
+  app.post("/pages/:name/overrides", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    await addOverrides(r.entry.overrides, r.name, req, res);
+  });
+
+  // GET /pages/:name/overrides - list page overrides with hit/reload counts
+  app.get("/pages/:name/overrides", (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const response: OverridesResponse = { name: r.name, overrides: r.entry.overrides.list() };
+    res.json(response);
+  });
+
+  // DELETE /pages/:name/overrides[/:id] - remove one override, or all of them
+  app.delete("/pages/:name/overrides", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    await removeOverrides(r.entry.overrides, undefined, res);
+  });
+  app.delete("/pages/:name/overrides/:id", async (req: Request<{ name: string; id: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    await removeOverrides(r.entry.overrides, req.params.id, res);
+  });
+
+  // Saved auth states (cookies + localStorage + sessionStorage) by name
+  const statesDir = profileDir ? join(profileDir, "states") : join(process.cwd(), ".browser-states");
+
+  // Resolve { name } or { path } to a state file path - returns an error message for bad input
+  const resolveStatePath = (body: StateFileRequest): { path: string } | { error: string } => {
+    if (body.path !== undefined) {
+      return isAbsolute(body.path) ? { path: body.path } : { error: "path must be absolute" };
+    }
+    if (!body.name || !/^[\w.-]{1,64}$/.test(body.name)) {
+      return { error: "name (letters, digits, '.', '_' or '-') or an absolute path is required" };
+    }
+    return { path: join(statesDir, `${body.name}.json`) };
+  };
+
+  const getBrowserContext = (contextName: string): BrowserContext | undefined =>
+    contextName === DEFAULT_CONTEXT ? context : isolatedContexts.get(contextName)?.context;
+
+  // GET /states - list saved state names
+  app.get("/states", (_req: Request, res: Response) => {
+    const names = existsSync(statesDir)
+      ? readdirSync(statesDir)
+          .filter((f) => f.endsWith(".json"))
+          .map((f) => f.slice(0, -5))
+      : [];
+    res.json({ dir: statesDir, states: names });
+  });
+
+  // POST /contexts/:name/state/export - save cookies/storage (optionally one origin) to a file
+  app.post("/contexts/:name/state/export", async (req: Request<{ name: string }>, res: Response) => {
+    const contextName = decodeURIComponent(req.params.name);
+    const target = getBrowserContext(contextName);
+    if (!target) {
+      res.status(404).json({ error: `Context "${contextName}" not found` });
+      return;
+    }
+    const body = (req.body ?? {}) as StateExportRequest;
+    const resolved = resolveStatePath(body);
+    if ("error" in resolved) {
+      res.status(400).json({ error: resolved.error });
+      return;
+    }
+    try {
+      const state = await captureState(target, { origin: body.origin });
+      saveStateFile(resolved.path, state);
+      const response: StateResponse = {
+        path: resolved.path,
+        cookies: state.cookies.length,
+        origins: state.origins.length,
+        savedAt: state.savedAt,
+      };
+      console.log(`State export "${contextName}" → ${resolved.path} (${response.cookies} cookies, ${response.origins} origins)`);
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /contexts/:name/state/import - load a saved state into a context (before navigating)
+  app.post("/contexts/:name/state/import", async (req: Request<{ name: string }>, res: Response) => {
+    const contextName = decodeURIComponent(req.params.name);
+    const target = getBrowserContext(contextName);
+    if (!target) {
+      res.status(404).json({ error: `Context "${contextName}" not found` });
+      return;
+    }
+    const resolved = resolveStatePath((req.body ?? {}) as StateFileRequest);
+    if ("error" in resolved) {
+      res.status(400).json({ error: resolved.error });
+      return;
+    }
+    const state = loadStateFile(resolved.path);
+    if (!state) {
+      res.status(404).json({ error: `No saved state at ${resolved.path}` });
+      return;
+    }
+    try {
+      await applyState(target, state);
+      const response: StateResponse = {
+        path: resolved.path,
+        cookies: state.cookies.length,
+        origins: state.origins.length,
+        savedAt: state.savedAt,
+      };
+      console.log(`State import "${contextName}" ← ${resolved.path} (saved ${state.savedAt})`);
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // Resolve ?context= for the context-wide override endpoints (default context when omitted)
+  const getContextOverrides = (req: Request, res: Response) => {
+    const { context: contextName = DEFAULT_CONTEXT } = req.query as { context?: string };
+    if (contextName === DEFAULT_CONTEXT) return { contextName, table: contextOverrides };
+    const entry = isolatedContexts.get(contextName);
+    if (!entry) {
+      res.status(404).json({ error: `Context "${contextName}" not found` });
+      return null;
+    }
+    return { contextName, table: entry.overrides };
+  };
+
+  // POST/GET/DELETE /overrides?context=<name> - context-wide overrides, applied to every page in it
+  app.post("/overrides", async (req: Request, res: Response) => {
+    const c = getContextOverrides(req, res);
+    if (!c) return;
+    await addOverrides(c.table, `*${c.contextName}`, req, res);
+  });
+  app.get("/overrides", (req: Request, res: Response) => {
+    const c = getContextOverrides(req, res);
+    if (!c) return;
+    const response: OverridesResponse = { name: `*${c.contextName}`, overrides: c.table.list() };
+    res.json(response);
+  });
+  app.delete("/overrides", async (req: Request, res: Response) => {
+    const c = getContextOverrides(req, res);
+    if (!c) return;
+    await removeOverrides(c.table, undefined, res);
+  });
+  app.delete("/overrides/:id", async (req: Request<{ id: string }>, res: Response) => {
+    const c = getContextOverrides(req, res);
+    if (!c) return;
+    await removeOverrides(c.table, req.params.id, res);
+  });
+
+  // Emulation overrides only last while their CDP session is attached, so keep one per page
+  const getCdpSession = async (entry: PageEntry): Promise<CDPSession> => {
+    if (!entry.cdp) {
+      entry.cdp = await entry.page.context().newCDPSession(entry.page);
+    }
+    return entry.cdp;
+  };
+
+  // GET /devices - device descriptors available for emulation
+  app.get("/devices", (_req: Request, res: Response) => {
+    res.json({ devices: listDevices() });
+  });
+
+  // POST /pages/:name/emulate - apply a device (UA, DPR, isMobile, hasTouch, viewport)
+  app.post("/pages/:name/emulate", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    const { device: deviceName, reload = true } = (req.body ?? {}) as EmulateRequest;
+    if (!deviceName || typeof deviceName !== "string") {
+      res.status(400).json({ error: "device is required (see GET /devices)" });
+      return;
+    }
+    const device = findDevice(deviceName);
+    if (!device) {
+      res.status(404).json({ error: `Unknown device "${deviceName}" (see GET /devices)` });
+      return;
+    }
+    try {
+      const userAgent =
+        entry.emulation?.userAgent ?? (await entry.page.evaluate(() => navigator.userAgent));
+      await applyDevice(await getCdpSession(entry), device);
+      entry.emulation = { device, userAgent };
+      if (reload && entry.page.url() !== "about:blank") {
+        await entry.page.reload({ waitUntil: "domcontentloaded" });
+      }
+      console.log(`Emulate "${name}" → ${device.name} (${device.viewport.width}x${device.viewport.height}@${device.deviceScaleFactor}x)`);
+      const response: EmulateResponse = { device, url: entry.page.url() };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // DELETE /pages/:name/emulate - back to the plain desktop viewport and UA
+  app.delete("/pages/:name/emulate", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    try {
+      if (entry.emulation && entry.cdp) {
+        await clearDevice(entry.cdp, entry.page, entry.emulation.userAgent);
+        entry.emulation = undefined;
+        if (req.query.reload !== "false" && entry.page.url() !== "about:blank") {
+          await entry.page.reload({ waitUntil: "domcontentloaded" });
+        }
+        console.log(`Emulate "${name}" → reset`);
+      }
+      const response: EmulateResponse = { device: null, url: entry.page.url() };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/throttle - network (latency, throughput, offline) and CPU throttling
+  app.post("/pages/:name/throttle", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    const conditions = resolveThrottle((req.body ?? {}) as ThrottleRequest);
+    if (typeof conditions === "string") {
+      res.status(400).json({ error: conditions });
+      return;
+    }
+    try {
+      await applyThrottle(await getCdpSession(entry), conditions);
+      entry.throttle = conditions;
+      console.log(
+        `Throttle "${name}" → ${conditions.offline ? "offline" : `${conditions.latency}ms, ${conditions.downloadKbps}/${conditions.uploadKbps} kbps`}, cpu ${conditions.cpu}x`
+      );
+      const response: ThrottleResponse = { name, conditions };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // GET /pages/:name/throttle - current throttling (null when off)
+  app.get("/pages/:name/throttle", (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const response: ThrottleResponse = { name: r.name, conditions: r.entry.throttle ?? null };
+    res.json(response);
+  });
+
+  // DELETE /pages/:name/throttle - back to full speed
+  app.delete("/pages/:name/throttle", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    try {
+      if (entry.throttle && entry.cdp) {
+        await clearThrottle(entry.cdp);
+        entry.throttle = undefined;
+        console.log(`Throttle "${name}" → reset`);
+      }
+      const response: ThrottleResponse = { name, conditions: null };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // POST /pages/:name/vitals - install performance observers at document start, navigate, collect
+  app.post("/pages/:name/vitals", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    const { url, settle = 3000 } = (req.body ?? {}) as VitalsRequest;
+    try {
+      if (!entry.vitals) {
+        await installVitals(entry.page);
+        entry.vitals = true;
+      }
+      if (url) {
+        await entry.page.goto(url, { waitUntil: "load", timeout: 30000 });
+      } else {
+        await entry.page.reload({ waitUntil: "load", timeout: 30000 });
+      }
+      try { await entry.page.waitForLoadState("networkidle", { timeout: 10000 }); } catch { /* proceed */ }
+      if (settle > 0) await entry.page.waitForTimeout(settle);
+
+      const report: VitalsReport = await collectVitals(entry.page);
+      console.log(`Vitals "${name}" → LCP ${report.lcp ?? "-"}ms, CLS ${report.cls}, TTFB ${report.ttfb ?? "-"}ms`);
+      res.json(report);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // GET /pages/:name/vitals - metrics for the current document without navigating (INP after interactions)
+  app.get("/pages/:name/vitals", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    try {
+      const report: VitalsReport = await collectVitals(r.entry.page);
+      res.json(report);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // GET /pages/:name/dialogs - dialog policy and recent dialogs (pending ones are still open)
+  app.get("/pages/:name/dialogs", (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const response: DialogsResponse = {
+      name: r.name,
+      policy: r.entry.dialogs.policy,
+      dialogs: r.entry.dialogs.list(),
+    };
+    res.json(response);
+  });
+
+  // POST /pages/:name/dialogs/policy - accept, dismiss (with prompt text) or queue future dialogs
+  app.post("/pages/:name/dialogs/policy", (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    const policy = req.body as DialogPolicy;
+    const error = validateDialogPolicy(policy);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    entry.dialogs.setPolicy(policy);
+    console.log(`Dialogs "${name}" → ${policy.action}`);
+    const response: DialogsResponse = { name, policy: entry.dialogs.policy, dialogs: entry.dialogs.list() };
+    res.json(response);
+  });
+
+  // POST /pages/:name/dialogs/:id - answer a queued dialog
+  app.post("/pages/:name/dialogs/:id", async (req: Request<{ name: string; id: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { action, promptText } = (req.body ?? {}) as DialogResponseRequest;
+    if (action !== "accept" && action !== "dismiss") {
+      res.status(400).json({ error: "action must be accept or dismiss" });
+      return;
+    }
+    try {
+      const answered = await r.entry.dialogs.respond(Number(req.params.id), action, promptText);
+      if (!answered) {
+        res.status(404).json({ error: `No pending dialog ${req.params.id} on page "${r.name}"` });
+        return;
+      }
+      res.json({ success: true });
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // GET /downloads?page=a,b - downloads captured from registry pages (newest last)
+  app.get("/downloads", (req: Request, res: Response) => {
+    const pages = typeof req.query.page === "string" ? req.query.page.split(",").filter(Boolean) : undefined;
+    const response: DownloadsResponse = { downloads: downloads.list(pages) };
+    res.json(response);
+  });
+
+  // GET /downloads/:id - download metadata
+  app.get("/downloads/:id", (req: Request<{ id: string }>, res: Response) => {
+    const record = downloads.get(Number(req.params.id));
+    if (!record) {
+      res.status(404).json({ error: `Download ${req.params.id} not found` });
+      return;
+    }
+    res.json(record);
+  });
+
+  // GET /downloads/:id/file - the downloaded file itself
+  app.get("/downloads/:id/file", (req: Request<{ id: string }>, res: Response) => {
+    const record = downloads.get(Number(req.params.id));
+    if (!record?.path || !existsSync(record.path)) {
+      res.status(404).json({ error: `Download ${req.params.id} has no saved file` });
+      return;
+    }
+    res.download(record.path, record.suggestedFilename);
+  });
+
+  // GET /pages/:name/downloads/next?after=<id>&timeout=<ms> - wait for the page's next finished download
+  app.get("/pages/:name/downloads/next", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const after = req.query.after !== undefined ? Number(req.query.after) : downloads.lastId;
+    const timeout = req.query.timeout !== undefined ? Number(req.query.timeout) : 30000;
+    if (!Number.isFinite(after) || !Number.isFinite(timeout) || timeout < 0) {
+      res.status(400).json({ error: "after and timeout must be numbers" });
+      return;
+    }
+    const record: DownloadRecord | null = await downloads.waitFor(r.name, after, timeout);
+    if (!record) {
+      res.status(408).json({ error: `No download on page "${r.name}" within ${timeout}ms` });
+      return;
+    }
+    res.json(record);
+  });
+
+  // Headless browser for PDF export from headed modes (launched on first use)
+  let pdfBrowser: Awaited<ReturnType<typeof chromium.launch>> | null = null;
+  const getPdfBrowser = async () => {
+    if (!pdfBrowser?.isConnected()) {
+      pdfBrowser = await chromium.launch({ headless: true });
+    }
+    return pdfBrowser;
+  };
+
+  // POST /pages/:name/pdf - print to PDF (paper size, margins, header/footer, page ranges)
+  app.post("/pages/:name/pdf", async (req: Request<{ name: string }>, res: Response) => {
+    const r = getPageEntry(req, res);
+    if (!r) return;
+    const { name, entry } = r;
+    const body = (req.body ?? {}) as PdfRequest;
+    const error = validatePdfRequest(body);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    if (body.path !== undefined && !isAbsolute(body.path)) {
+      res.status(400).json({ error: "path must be absolute" });
+      return;
+    }
+    try {
+      const pdfPath = body.path ?? join(artifactDir(entry.project, "pdfs"), `${fileStem(name)}.pdf`);
+      const media = body.media ?? "print";
+      const options = toPdfOptions(body);
+      let pdf: Buffer;
+      let via: PdfResponse["via"];
+      // page.pdf needs headless Chromium - user mode is always a headed browser
+      if (headless && browserMode !== "user") {
+        await entry.page.emulateMedia({ media });
+        try {
+          pdf = await entry.page.pdf(options);
+        } finally {
+          await entry.page.emulateMedia({ media: null }).catch(() => {});
+        }
+        via = "page";
+      } else {
+        pdf = await printInHeadless(await getPdfBrowser(), entry.page, options, media);
+        via = "headless";
+      }
+      mkdirSync(dirname(pdfPath), { recursive: true });
+      writeFileSync(pdfPath, pdf);
+      console.log(`PDF "${name}" → ${pdfPath} (${pdf.length} bytes, via ${via})`);
+      const response: PdfResponse = { path: pdfPath, bytes: pdf.length, url: entry.page.url(), via };
+      res.json(response);
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
   // Start the server
   const server = app.listen(port, () => {
     console.log(`HTTP API server running on port ${port}`);
@@ -735,6 +2175,56 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     socket.on("close", () => connections.delete(socket));
   });
 
+  // Save what a page is still recording, so a Ctrl-C mid-recording keeps the HAR, video,
+  // coverage report and trace - recordings need the page, so this runs before it closes
+  const flushRecordings = async (name: string, entry: PageEntry) => {
+    const { project } = entry;
+    const har = entry.har;
+    entry.har = undefined;
+    if (har) {
+      try {
+        const harPath = join(artifactDir(project, "har"), `${fileStem(name)}.har`);
+        const log = await har.stop();
+        mkdirSync(dirname(harPath), { recursive: true });
+        writeFileSync(harPath, JSON.stringify(log, null, 2));
+        console.log(`HAR "${name}" → ${harPath} (shutdown)`);
+      } catch (err) {
+        console.error(`Failed to save HAR for "${name}":`, err);
+      }
+    }
+    const coverage = entry.coverage;
+    entry.coverage = undefined;
+    if (coverage) {
+      try {
+        const report = await coverage.stop({
+          report: "json",
+          path: join(artifactDir(project, "coverage"), `${fileStem(name)}.json`),
+        });
+        console.log(`Coverage "${name}" → ${report.report} (shutdown)`);
+      } catch (err) {
+        console.error(`Failed to save coverage for "${name}":`, err);
+      }
+    }
+    const screencast = entry.screencast;
+    entry.screencast = undefined;
+    if (screencast) {
+      try {
+        const video = await screencast.finish(join(artifactDir(project, "videos"), `${fileStem(name)}.webm`), "shutdown");
+        console.log(`Screencast "${name}" → ${video.path} (shutdown)`);
+      } catch (err) {
+        console.error(`Failed to save screencast for "${name}":`, err);
+      }
+    }
+    if (traces.isRecording(name)) {
+      try {
+        const trace = await traces.stop(name, defaultTracePath(name, project));
+        console.log(`Trace "${name}" → ${trace?.path} (shutdown)`);
+      } catch (err) {
+        console.error(`Failed to save trace for "${name}":`, err);
+      }
+    }
+  };
+
   // Track if cleanup has been called to avoid double cleanup
   let cleaningUp = false;
 
@@ -751,6 +2241,10 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     }
     connections.clear();
 
+    for (const [name, entry] of registry) {
+      await flushRecordings(name, entry);
+    }
+
     // Close all pages
     for (const entry of registry.values()) {
       try {
@@ -761,6 +2255,25 @@ export async function serve(options: ServeOptions = {}): Promise<DevBrowserServe
     }
     registry.clear();
 
+    // Stop file watchers and remove context-wide routes
+    await contextOverrides.clear();
+
+    // Save persisted isolated contexts, then close them all
+    for (const [contextName, entry] of isolatedContexts) {
+      if (entry.persist) {
+        await saveContextState(contextName, entry).catch(() => {});
+      }
+      await entry.overrides.clear();
+      await entry.context.close().catch(() => {});
+    }
+    isolatedContexts.clear();
+    if (isolationBrowser) {
+      await isolationBrowser.close().catch(() => {});
+    }
+    if (pdfBrowser) {
+      await pdfBrowser.close().catch(() => {});
+    }
+
     // Close context (this also closes the browser) - but NOT in user mode
     if (browserMode !== "user") {
       try {
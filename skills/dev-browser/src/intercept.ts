@@ -0,0 +1,161 @@
+// Request interception rules - stub endpoints, block scripts, inject latency
+// Rules are registered with page.route on the server's Page, so they outlive client connections
+
+import { existsSync } from "fs";
+import type { Page, Route } from "playwright";
+import type { HeaderOverrides, RouteRule, RouteRuleInput } from "./types";
+
+const ACTIONS = ["fulfill", "abort", "continue"] as const;
+
+// Validate a rule before registering it - returns an error message or null
+export function validateRouteRule(input: RouteRuleInput): string | null {
+  if (!input || typeof input.url !== "string" || !input.url) {
+    return "url (glob pattern) is required";
+  }
+  if (!ACTIONS.includes(input.action)) {
+    return `action must be one of: ${ACTIONS.join(", ")}`;
+  }
+  if (input.delay !== undefined && (!Number.isFinite(input.delay) || input.delay < 0)) {
+    return "delay must be a non-negative number of ms";
+  }
+  if (input.action === "fulfill") {
+    const bodies = [input.json !== undefined, input.body !== undefined, input.file !== undefined];
+    if (bodies.filter(Boolean).length > 1) {
+      return "fulfill accepts only one of json, body or file";
+    }
+    if (input.file !== undefined && !existsSync(input.file)) {
+      return `file not found: ${input.file}`;
+    }
+  }
+  return null;
+}
+
+// Apply overrides on top of existing headers (null removes a header)
+function applyHeaders(base: Record<string, string>, overrides: HeaderOverrides = {}) {
+  const headers = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    const name = key.toLowerCase();
+    if (value === null) {
+      delete headers[name];
+    } else {
+      headers[name] = value;
+    }
+  }
+  return headers;
+}
+
+function withoutNulls(overrides: HeaderOverrides = {}): Record<string, string> {
+  return applyHeaders({}, overrides);
+}
+
+async function handle(route: Route, rule: RouteRule): Promise<void> {
+  if (rule.delay) {
+    await new Promise((resolve) => setTimeout(resolve, rule.delay));
+  }
+
+  switch (rule.action) {
+    case "abort":
+      await route.abort(rule.errorCode ?? "failed");
+      return;
+
+    case "fulfill": {
+      const headers = withoutNulls(rule.headers);
+      if (rule.file !== undefined) {
+        await route.fulfill({
+          status: rule.status ?? 200,
+          path: rule.file,
+          contentType: rule.contentType,
+          headers,
+        });
+      } else if (rule.json !== undefined) {
+        await route.fulfill({ status: rule.status ?? 200, json: rule.json, headers });
+      } else {
+        await route.fulfill({
+          status: rule.status ?? 200,
+          body: rule.body ?? "",
+          contentType: rule.contentType,
+          headers,
+        });
+      }
+      return;
+    }
+
+    case "continue": {
+      const request = route.request();
+      const headers = rule.headers
+        ? applyHeaders(await request.allHeaders(), rule.headers)
+        : undefined;
+      if (!rule.responseHeaders) {
+        await route.continue({ headers });
+        return;
+      }
+      const response = await route.fetch({ headers });
+      await route.fulfill({
+        response,
+        headers: applyHeaders(response.headers(), rule.responseHeaders),
+      });
+      return;
+    }
+  }
+}
+
+/**
+ * Per-page rule table backed by page.route.
+ * Playwright runs the most recently registered matching route first,
+ * so newer rules take precedence over older ones for the same URL.
+ */
+export function createRouteTable(page: Page) {
+  const rules: Array<{ rule: RouteRule; handler: (route: Route) => Promise<void> }> = [];
+  let nextId = 1;
+
+  return {
+    async add(input: RouteRuleInput): Promise<RouteRule> {
+      const rule: RouteRule = {
+        ...input,
+        id: `r${nextId++}`,
+        hits: 0,
+        createdAt: new Date().toISOString(),
+      };
+      const handler = async (route: Route) => {
+        rule.hits++;
+        try {
+          await handle(route, rule);
+        } catch (err) {
+          console.warn(`Route rule ${rule.id} (${rule.url}) failed:`, err);
+          // Hand the request on so the page doesn't wait for it until it times out - this
+          // also throws when the request was already handled or the page navigated away
+          try {
+            await route.fallback();
+          } catch {
+            await route.abort().catch(() => {});
+          }
+        }
+      };
+      await page.route(rule.url, handler);
+      rules.push({ rule, handler });
+      return rule;
+    },
+
+    list(): RouteRule[] {
+      return rules.map((r) => r.rule).reverse();
+    },
+
+    async remove(id: string): Promise<boolean> {
+      const index = rules.findIndex((r) => r.rule.id === id);
+      if (index === -1) return false;
+      const [removed] = rules.splice(index, 1);
+      await page.unroute(removed!.rule.url, removed!.handler);
+      return true;
+    },
+
+    async clear(): Promise<number> {
+      const removed = rules.splice(0);
+      for (const { rule, handler } of removed) {
+        await page.unroute(rule.url, handler);
+      }
+      return removed.length;
+    },
+  };
+}
+
+export type RouteTable = ReturnType<typeof createRouteTable>;
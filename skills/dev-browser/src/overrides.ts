@@ -0,0 +1,122 @@
+// Local file overrides - serve files from disk in place of remote URLs (theme CSS/JS while editing)
+// Routing disables the HTTP cache for the page, so overridden assets never need ?v= cache-busting
+
+import { existsSync, unwatchFile, watchFile, type Stats } from "fs";
+import { isAbsolute } from "path";
+import type { Route } from "playwright";
+import type { FileOverride, FileOverrideInput } from "./types";
+
+type RouteHandler = (route: Route) => Promise<void>;
+
+// page.route and context.route share this shape, so overrides work per page or per context
+interface RouteTarget {
+  route(url: string, handler: RouteHandler): Promise<void>;
+  unroute(url: string, handler: RouteHandler): Promise<void>;
+}
+
+// Poll interval for watched files - watchFile survives editors that save via rename
+const WATCH_INTERVAL_MS = 300;
+
+// Validate an override before registering it - returns an error message or null
+export function validateFileOverride(input: FileOverrideInput): string | null {
+  if (!input || typeof input.url !== "string" || !input.url) {
+    return "url (glob pattern) is required";
+  }
+  if (typeof input.file !== "string" || !isAbsolute(input.file)) {
+    return "file must be an absolute path";
+  }
+  if (!existsSync(input.file)) {
+    return `file not found: ${input.file}`;
+  }
+  return null;
+}
+
+/**
+ * Override table for a page or browser context.
+ * reload is called (debounced) when a watched file changes.
+ */
+export function createOverrideTable(target: RouteTarget, reload: () => Promise<void>) {
+  const overrides: Array<{
+    override: FileOverride;
+    handler: RouteHandler;
+    onChange?: (curr: Stats, prev: Stats) => void;
+  }> = [];
+  let nextId = 1;
+  let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Several files saved at once (build step, git checkout) should cause one reload
+  const scheduleReload = () => {
+    if (reloadTimer) clearTimeout(reloadTimer);
+    reloadTimer = setTimeout(() => {
+      reloadTimer = null;
+      reload().catch((err) => console.warn("Override reload failed:", err));
+    }, 100);
+  };
+
+  const detach = async (entry: (typeof overrides)[number]) => {
+    if (entry.onChange) unwatchFile(entry.override.file, entry.onChange);
+    // Target may already be closed (page closed, context crashed)
+    await target.unroute(entry.override.url, entry.handler).catch(() => {});
+  };
+
+  return {
+    async add(input: FileOverrideInput): Promise<FileOverride> {
+      const override: FileOverride = {
+        url: input.url,
+        file: input.file,
+        watch: input.watch ?? false,
+        id: `o${nextId++}`,
+        hits: 0,
+        reloads: 0,
+      };
+      const handler = async (route: Route) => {
+        override.hits++;
+        try {
+          await route.fulfill({ path: override.file });
+        } catch (err) {
+          // File removed since registration - let the real response through
+          console.warn(`Override ${override.id} (${override.file}) failed:`, err);
+          await route.continue().catch(() => {});
+        }
+      };
+
+      // Route first, so a failed registration doesn't leave a watcher behind
+      await target.route(override.url, handler);
+
+      let onChange: ((curr: Stats, prev: Stats) => void) | undefined;
+      if (override.watch) {
+        onChange = (curr, prev) => {
+          if (curr.mtimeMs === prev.mtimeMs) return;
+          override.reloads++;
+          console.log(`Override ${override.id} changed: ${override.file} → reloading`);
+          scheduleReload();
+        };
+        watchFile(override.file, { interval: WATCH_INTERVAL_MS }, onChange);
+      }
+      overrides.push({ override, handler, onChange });
+      return override;
+    },
+
+    list(): FileOverride[] {
+      return overrides.map((o) => o.override);
+    },
+
+    async remove(id: string): Promise<boolean> {
+      const index = overrides.findIndex((o) => o.override.id === id);
+      if (index === -1) return false;
+      const [removed] = overrides.splice(index, 1);
+      await detach(removed!);
+      return true;
+    },
+
+    async clear(): Promise<number> {
+      const removed = overrides.splice(0);
+      for (const entry of removed) {
+        await detach(entry);
+      }
+      return removed.length;
+    },
+  };
+}
+
+export type OverrideTable = ReturnType<typeof createOverrideTable>;
@@ -7,6 +7,8 @@ import {
   type FillFormOptions,
   type FillFormResult,
 } from "./client";
+import { applyState, captureState, loadStateFile, saveStateFile } from "./storage-state";
+import { prepareCapture } from "./screenshot";
 
 /**
  * Login pattern options
@@ -28,6 +30,30 @@ export interface LoginOptions {
   waitFor?: string | RegExp;
   /** Timeout in ms (default: 10000) */
   timeout?: number;
+  /**
+   * Reuse auth state from this file (absolute path, same format as the server's state export).
+   * The form is skipped while the saved state is still valid; after a fresh login it is re-saved.
+   */
+  state?: string;
+  /** Page that requires auth, used to check a reused state (default: wp-admin/ for wp-login.php, else url) */
+  checkUrl?: string;
+}
+
+// Import a saved state and check it still authenticates: the login form must not show up on checkUrl
+async function reuseSavedState(
+  page: Page,
+  statePath: string,
+  checkUrl: string,
+  usernameSelector: string,
+  timeout: number
+): Promise<boolean> {
+  const saved = loadStateFile(statePath);
+  if (!saved) return false;
+
+  await applyState(page.context(), saved);
+  await page.goto(checkUrl);
+  await waitForPageLoad(page, { timeout });
+  return (await page.locator(usernameSelector).count()) === 0;
 }
 
 /**
@@ -55,6 +81,15 @@ export interface LoginOptions {
  *   },
  *   waitFor: '/dashboard'
  * });
+ *
+ * @example
+ * // Reuse a saved session, log in again only when it has expired
+ * await login(page, {
+ *   url: 'https://site.com/wp-login.php',
+ *   user: 'admin',
+ *   pass: 'password123',
+ *   state: '/path/to/profiles/dev/states/site-admin.json'
+ * });
  */
 export async function login(page: Page, options: LoginOptions): Promise<boolean> {
   const {
@@ -64,6 +99,7 @@ export async function login(page: Page, options: LoginOptions): Promise<boolean>
     selectors = {},
     waitFor,
     timeout = 10000,
+    state,
   } = options;
 
   // Default to WordPress selectors
@@ -72,6 +108,15 @@ export async function login(page: Page, options: LoginOptions): Promise<boolean>
   const submitSelector = selectors.submit || "#wp-submit";
 
   try {
+    if (state) {
+      const checkUrl = options.checkUrl || url.replace(/wp-login\.php.*$/, "wp-admin/");
+      if (await reuseSavedState(page, state, checkUrl, usernameSelector, timeout)) {
+        console.log(`Reused saved login state: ${state}`);
+        return true;
+      }
+      console.log("Saved login state missing or expired, logging in...");
+    }
+
     // Navigate to login if not already there
     if (!page.url().includes(new URL(url).pathname)) {
       await page.goto(url);
@@ -103,6 +148,11 @@ export async function login(page: Page, options: LoginOptions): Promise<boolean>
       await page.waitForTimeout(2000);
     }
 
+    if (state) {
+      // Only this site's cookies/storage - keeps the file small and reusable across contexts
+      saveStateFile(state, await captureState(page.context(), { origin: new URL(url).origin }));
+    }
+
     return true;
   } catch (err) {
     console.error("Login failed:", err instanceof Error ? err.message : String(err));
@@ -316,6 +366,10 @@ export interface ResponsiveOptions {
   viewports?: Array<{ width: number; height: number; name: string }>;
   /** Screenshot base path (will append viewport name) */
   screenshots?: string;
+  /** Freeze animations, hide the caret and wait for fonts so shots can serve as baselines */
+  stable?: boolean;
+  /** Selectors or snapshot refs to cover with solid boxes in the screenshots */
+  mask?: string[];
   /** Timeout in ms (default: 10000) */
   timeout?: number;
 }
@@ -341,6 +395,14 @@ export interface ResponsiveOptions {
  *   ],
  *   screenshots: '/tmp/test'
  * });
+ *
+ * @example
+ * // Baseline-ready screenshots
+ * await responsive(page, {
+ *   screenshots: '/tmp/baseline',
+ *   stable: true,
+ *   mask: ['.timestamp', '.carousel']
+ * });
  */
 export async function responsive(page: Page, options: ResponsiveOptions): Promise<boolean> {
   const {
@@ -352,6 +414,8 @@ export async function responsive(page: Page, options: ResponsiveOptions): Promis
       { width: 1920, height: 1080, name: "desktop-large" },
     ],
     screenshots,
+    stable,
+    mask,
     timeout = 10000,
   } = options;
 
@@ -382,7 +446,13 @@ export async function responsive(page: Page, options: ResponsiveOptions): Promis
       // Screenshot if requested
       if (screenshots) {
         const path = `${screenshots}-${viewport.name}.png`;
-        await page.screenshot({ path, fullPage: true });
+        // Masks are resolved per viewport - elements move and refs can go stale after reload
+        const capture = await prepareCapture(page, { stable, mask });
+        try {
+          await page.screenshot({ ...capture.options, path, fullPage: true });
+        } finally {
+          await capture.cleanup();
+        }
         console.log(`Screenshot saved: ${path}`);
       }
     }
@@ -0,0 +1,76 @@
+// PDF export - page.pdf only works in headless Chromium, so headed browsers print
+// through a temporary headless page that carries the same storage state and viewport
+
+import type { Browser, Page } from "playwright";
+import { applyState, captureState, stateSeedingReady } from "./storage-state";
+import type { PdfRequest } from "./types";
+
+type PdfOptions = NonNullable<Parameters<Page["pdf"]>[0]>;
+
+// Validate a PDF request - returns an error message or null
+export function validatePdfRequest(req: PdfRequest): string | null {
+  if (
+    req.scale !== undefined &&
+    (!Number.isFinite(req.scale) || req.scale < 0.1 || req.scale > 2)
+  ) {
+    return "scale must be between 0.1 and 2";
+  }
+  if (req.media !== undefined && req.media !== "print" && req.media !== "screen") {
+    return 'media must be "print" or "screen"';
+  }
+  if ((req.width === undefined) !== (req.height === undefined)) {
+    return "width and height must be given together";
+  }
+  return null;
+}
+
+export function toPdfOptions(req: PdfRequest): PdfOptions {
+  return {
+    format: req.width ? undefined : req.format,
+    width: req.width,
+    height: req.height,
+    landscape: req.landscape,
+    margin: req.margin,
+    printBackground: req.printBackground ?? true,
+    // Templates are only rendered when the header/footer is enabled
+    displayHeaderFooter: req.headerTemplate !== undefined || req.footerTemplate !== undefined,
+    // Chromium prints its default header/footer when one template is missing
+    headerTemplate:
+      req.headerTemplate ?? (req.footerTemplate !== undefined ? "<span></span>" : undefined),
+    footerTemplate:
+      req.footerTemplate ?? (req.headerTemplate !== undefined ? "<span></span>" : undefined),
+    pageRanges: req.pageRanges,
+    scale: req.scale,
+    preferCSSPageSize: req.preferCSSPageSize,
+  };
+}
+
+/**
+ * Print a page from a headed browser: load its URL in a throwaway headless context with the
+ * source context's cookies/localStorage/sessionStorage, viewport and user agent, then page.pdf.
+ */
+export async function printInHeadless(
+  browser: Browser,
+  source: Page,
+  options: PdfOptions,
+  media: "print" | "screen"
+): Promise<Buffer> {
+  const state = await captureState(source.context());
+  // Headless Chrome advertises itself in the UA - keep the headed one so servers render the same page
+  const userAgent = (await source.evaluate("navigator.userAgent")) as string;
+  const context = await browser.newContext({
+    viewport: source.viewportSize() ?? undefined,
+    userAgent,
+  });
+  try {
+    await applyState(context, state);
+    const page = await context.newPage();
+    await stateSeedingReady(page);
+    await page.goto(source.url(), { waitUntil: "load", timeout: 30000 });
+    await page.waitForLoadState("networkidle", { timeout: 10000 }).catch(() => {});
+    await page.emulateMedia({ media });
+    return await page.pdf(options);
+  } finally {
+    await context.close().catch(() => {});
+  }
+}
@@ -0,0 +1,52 @@
+// Snapshot ref helpers - resolve refs like "e12" from the ARIA snapshot
+// Refs live on window.__devBrowserRefs (see snapshot/browser-script.ts)
+
+import type { ElementHandle, Page } from "playwright";
+
+export type RefResolution =
+  | { element: ElementHandle }
+  | { status: number; error: string; stale?: boolean };
+
+// Snapshot refs look like "e12" (see GET /pages/:name/snapshot)
+export function isSnapshotRef(target: string): boolean {
+  return /^e\d+$/.test(target);
+}
+
+// Resolve a snapshot ref to the element stored on window.__devBrowserRefs.
+// Returns an HTTP status + error when the ref is unknown or its element was detached.
+export async function resolveRef(page: Page, ref: string): Promise<RefResolution> {
+  const handle = await page.evaluateHandle((refId: string) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const w = globalThis as any;
+    const refs = w.__devBrowserRefs;
+    if (!refs) return "no-refs";
+    const element = refs[refId];
+    if (!element) return "missing";
+    if (!element.isConnected) return "stale";
+    return element;
+  }, ref);
+
+  const element = handle.asElement();
+  if (element) return { element };
+
+  const reason = (await handle.jsonValue()) as string;
+  await handle.dispose();
+  if (reason === "no-refs") {
+    return { status: 404, error: "No snapshot refs found. Run 'aria' first." };
+  }
+  if (reason === "stale") {
+    return {
+      status: 409,
+      error: `Ref '${ref}' is stale (element detached). Re-snapshot with 'aria' to get fresh refs.`,
+      stale: true,
+    };
+  }
+  return { status: 404, error: `Ref '${ref}' not found. Run 'aria' to see available refs.` };
+}
+
+// Like resolveRef, but throws instead of returning an error (for batch actions/scenarios)
+export async function requireRef(page: Page, ref: string): Promise<ElementHandle> {
+  const resolved = await resolveRef(page, ref);
+  if ("error" in resolved) throw new Error(resolved.error);
+  return resolved.element;
+}
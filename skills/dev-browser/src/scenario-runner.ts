@@ -1,6 +1,8 @@
 #!/usr/bin/env -S bun x tsx
 
 import { readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { parse as parseYaml } from "yaml";
 import { connect, type DevBrowserClient } from "./client";
 import {
@@ -11,7 +13,18 @@ import {
   waitForNetworkIdle,
 } from "./client";
 import { login, responsive, modal, fillAndSubmit } from "./patterns";
+import { prepareCapture } from "./screenshot";
+import { compareToBaseline, defaultBaselinesDir, hasBaseline, saveBaseline } from "./visual-diff";
 import type { Page } from "playwright";
+import type {
+  A11yRule,
+  CoverageReport,
+  DownloadRecord,
+  ThrottlePreset,
+  ThrottleRequest,
+  VitalsReport,
+  VitalsRequest,
+} from "./types";
 
 /**
  * Scenario schema types
@@ -37,6 +50,10 @@ type Step =
   | FillFormStep
   | ModalStep
   | ResponsiveStep
+  | EmulateStep
+  | ThrottleStep
+  | VitalsStep
+  | DownloadStep
   | IfStep
   | TryStep
   | EachStep
@@ -71,7 +88,9 @@ interface WaitStep extends BaseStep {
 }
 
 interface ScreenshotStep extends BaseStep {
-  screenshot: string | { path: string; fullPage?: boolean };
+  screenshot:
+    | string
+    | { path: string; fullPage?: boolean; stable?: boolean; mask?: string[] };
 }
 
 interface EvalStep extends BaseStep {
@@ -86,6 +105,8 @@ interface LoginStep extends BaseStep {
     usernameSelector?: string;
     passwordSelector?: string;
     submitSelector?: string;
+    /** Saved state file to reuse while valid (re-saved after a fresh login) */
+    state?: string;
   };
 }
 
@@ -109,9 +130,31 @@ interface ResponsiveStep extends BaseStep {
   responsive: {
     path: string;
     viewports?: Array<{ name: string; width: number; height: number }>;
+    stable?: boolean;
+    mask?: string[];
   };
 }
 
+interface EmulateStep extends BaseStep {
+  /** Device name ("iPhone 13"), "none" to reset, or options */
+  emulate: string | { device: string; reload?: boolean };
+}
+
+interface ThrottleStep extends BaseStep {
+  /** Preset ("slow-3g"), "none" to reset, or explicit conditions */
+  throttle: ThrottlePreset | "none" | ThrottleRequest;
+}
+
+interface VitalsStep extends BaseStep {
+  /** URL to measure, or options ({} reloads the current page) */
+  vitals: string | VitalsRequest;
+}
+
+interface DownloadStep extends BaseStep {
+  /** Click that triggers the download (same forms as the click step), then wait for the file */
+  download: string | { click?: ClickStep["click"]; timeout?: number };
+}
+
 interface IfStep extends BaseStep {
   if: { exists?: string; url?: string };
   then?: Step[];
@@ -146,7 +189,43 @@ type Assertion =
   | { hidden: string }
   | { exists: string }
   | { text: { selector: string; contains?: string; equals?: string } }
-  | { count: { selector: string; min?: number; max?: number; equals?: number } };
+  | { count: { selector: string; min?: number; max?: number; equals?: number } }
+  | { vitals: string | string[] }
+  | { download: { name?: string; contains?: string; minSize?: number } }
+  | { visualMatch: string | VisualMatchOptions }
+  | { a11y: true | A11yAssertOptions };
+
+interface VisualMatchOptions {
+  /** Baseline name (default: "default") */
+  name?: string;
+  threshold?: number;
+  maxDiffPercent?: number;
+  mask?: string[];
+  fullPage?: boolean;
+}
+
+interface A11yAssertOptions {
+  /** Only run these checks (default: all) */
+  rules?: A11yRule[];
+  /** Checks whose findings don't count */
+  ignore?: A11yRule[];
+  /** Allowed error/warning findings (default: 0 errors, any number of warnings) */
+  maxErrors?: number;
+  maxWarnings?: number;
+}
+
+// Metrics usable in vitals assertions ("lcp < 2500", "cls <= 0.1")
+const VITALS_METRICS: Record<string, (r: VitalsReport) => number | null> = {
+  lcp: (r) => r.lcp,
+  cls: (r) => r.cls,
+  inp: (r) => r.inp,
+  fcp: (r) => r.fcp,
+  ttfb: (r) => r.ttfb,
+  tbt: (r) => r.longTasks?.totalBlockingTime ?? null,
+  load: (r) => r.navigation?.load ?? null,
+  requests: (r) => r.resources.total.count,
+  bytes: (r) => r.resources.total.transferBytes,
+};
 
 /**
  * Execution result
@@ -157,6 +236,23 @@ interface ExecutionReport {
   steps: StepResult[];
   duration: number;
   error?: string;
+  /** Playwright trace zip (with --trace) */
+  trace?: string;
+  /** Screencast video or frame directory (with --record) */
+  video?: string;
+  /** JS/CSS coverage of the whole run (with --coverage) */
+  coverage?: CoverageReport;
+}
+
+/** When to keep a Playwright trace of the run */
+type TraceMode = "on-failure" | "always";
+
+interface ExecutorOptions {
+  trace?: TraceMode;
+  /** Record a screencast of the run */
+  record?: boolean;
+  /** Collect JS/CSS coverage and write the report in this format */
+  coverage?: "json" | "html";
 }
 
 interface StepResult {
@@ -177,11 +273,20 @@ class ScenarioExecutor {
   private variables: Map<string, string>;
   private results: StepResult[] = [];
   private shouldStop = false;
-
-  constructor(scenario: Scenario, client: DevBrowserClient) {
+  private lastVitals: VitalsReport | null = null;
+  private lastDownload: DownloadRecord | null = null;
+  private options: ExecutorOptions;
+  private tracing = false;
+  /** Name the page is registered under on the server - use it for every server call */
+  private pageName = "";
+  private recording = false;
+  private collectingCoverage = false;
+
+  constructor(scenario: Scenario, client: DevBrowserClient, options: ExecutorOptions = {}) {
     this.scenario = scenario;
     this.client = client;
     this.variables = new Map();
+    this.options = options;
   }
 
   /**
@@ -194,9 +299,44 @@ class ScenarioExecutor {
       // Resolve variables
       this.resolveVariables();
 
-      // Get or create page
-      const pageName = this.scenario.page || "main";
-      this.page = await this.client.page(pageName);
+      // Get or create page (project scopes downloads in the server's tmp dir)
+      this.pageName = await this.resolvePageName();
+      const pageName = this.pageName;
+      this.page = await this.client.page(pageName, { project: process.env.PROJECT_PREFIX });
+
+      // Steps drive the page through this process's own CDP connection, so trace its context
+      // here - a server-side trace would only see the server's Playwright calls
+      if (this.options.trace) {
+        try {
+          await this.page.context().tracing.start({
+            title: this.scenario.name,
+            screenshots: true,
+            snapshots: true,
+            sources: true,
+          });
+          this.tracing = true;
+        } catch (error) {
+          console.warn(`Trace not recorded: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (this.options.record) {
+        try {
+          await this.client.startScreencast(pageName);
+          this.recording = true;
+        } catch (error) {
+          console.warn(`Video not recorded: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (this.options.coverage) {
+        try {
+          await this.client.startCoverage(pageName);
+          this.collectingCoverage = true;
+        } catch (error) {
+          console.warn(`Coverage not collected: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
 
       // Execute steps
       for (let i = 0; i < this.scenario.steps.length; i++) {
@@ -238,23 +378,82 @@ class ScenarioExecutor {
         }
       }
 
-      return {
+      return await this.finishRecordings({
         scenario: this.scenario.name,
         success: !this.shouldStop && this.results.every((r) => r.status === "passed"),
         steps: this.results,
         duration: Date.now() - startTime,
-      };
+      });
     } catch (error) {
-      return {
+      return await this.finishRecordings({
         scenario: this.scenario.name,
         success: false,
         steps: this.results,
         duration: Date.now() - startTime,
         error: error instanceof Error ? error.message : String(error),
-      };
+      });
     }
   }
 
+  // Stop coverage, the screencast and the trace - the video and coverage report are always
+  // kept, the trace zip only for failed runs unless --trace always
+  private async finishRecordings(report: ExecutionReport): Promise<ExecutionReport> {
+    if (this.collectingCoverage) {
+      this.collectingCoverage = false;
+      try {
+        report.coverage = await this.client.stopCoverage(this.pageName, {
+          report: this.options.coverage,
+        });
+      } catch (error) {
+        console.warn(`Coverage not saved: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (this.recording) {
+      this.recording = false;
+      try {
+        const video = await this.client.stopScreencast(this.pageName);
+        report.video = video.path;
+      } catch (error) {
+        console.warn(`Video not saved: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (!this.tracing) return report;
+    this.tracing = false;
+
+    const keep = this.options.trace === "always" || !report.success;
+    try {
+      const tracing = this.page.context().tracing;
+      if (keep) {
+        const path = join(
+          process.env.PROJECT_TMP_DIR || join(tmpdir(), "dev-browser"),
+          `trace_${this.scenario.page || "main"}_${Date.now()}.zip`
+        );
+        await tracing.stop({ path });
+        report.trace = path;
+      } else {
+        await tracing.stop();
+      }
+    } catch (error) {
+      console.warn(`Trace not saved: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return report;
+  }
+
+  /**
+   * Resolve the scenario's page like the other CLI commands do: the project-prefixed name
+   * first, the raw name when only that one exists (cross-project access)
+   */
+  private async resolvePageName(): Promise<string> {
+    const name = this.scenario.page || "main";
+    const project = process.env.PROJECT_PREFIX;
+    if (!project) return name;
+    const prefixed = `${project}-${name}`;
+    const pages = await this.client.list();
+    return !pages.includes(prefixed) && pages.includes(name) ? name : prefixed;
+  }
+
   /**
    * Resolve variables with environment fallback
    */
@@ -308,6 +507,8 @@ class ScenarioExecutor {
   private async executeStep(step: Step): Promise<void> {
     // Interpolate variables in step
     const interpolated = this.interpolateObject(step);
+    // Only the vitals step's own assertions reuse its report
+    this.lastVitals = null;
 
     // Execute based on step type
     if ("goto" in interpolated) {
@@ -332,6 +533,14 @@ class ScenarioExecutor {
       await this.executeModal(interpolated);
     } else if ("responsive" in interpolated) {
       await this.executeResponsive(interpolated);
+    } else if ("emulate" in interpolated) {
+      await this.executeEmulate(interpolated);
+    } else if ("throttle" in interpolated) {
+      await this.executeThrottle(interpolated);
+    } else if ("vitals" in interpolated) {
+      await this.executeVitals(interpolated);
+    } else if ("download" in interpolated) {
+      await this.executeDownload(interpolated);
     } else if ("if" in interpolated) {
       await this.executeIf(interpolated);
     } else if ("try" in interpolated) {
@@ -374,7 +583,7 @@ class ScenarioExecutor {
     } else if (click.text) {
       await this.page.getByText(click.text).click();
     } else if (click.ref) {
-      const element = await this.client.selectSnapshotRef(this.scenario.page || "main", click.ref);
+      const element = await this.client.selectSnapshotRef(this.pageName, click.ref);
       if (!element) throw new Error(`Ref not found: ${click.ref}`);
       await element.click();
     } else if (click.selector) {
@@ -441,7 +650,12 @@ class ScenarioExecutor {
       await this.page.screenshot({ path });
     } else {
       const path = screenshot.path.startsWith("/") ? screenshot.path : `tmp/${screenshot.path}`;
-      await this.page.screenshot({ path, fullPage: screenshot.fullPage });
+      const capture = await prepareCapture(this.page, screenshot);
+      try {
+        await this.page.screenshot({ ...capture.options, path, fullPage: screenshot.fullPage });
+      } finally {
+        await capture.cleanup();
+      }
     }
   }
 
@@ -470,13 +684,14 @@ class ScenarioExecutor {
         password: opts.passwordSelector,
         submit: opts.submitSelector,
       },
+      state: opts.state,
     });
   }
 
   private async executeFillForm(step: FillFormStep): Promise<void> {
     const opts = step.fillForm;
 
-    await this.client.fillForm(this.scenario.page || "main", opts.fields, {
+    await this.client.fillForm(this.pageName, opts.fields, {
       submit: opts.submit,
     });
   }
@@ -510,9 +725,61 @@ class ScenarioExecutor {
     await responsive(this.page, {
       viewports: opts.viewports,
       screenshots: `tmp/${opts.path}`,
+      stable: opts.stable,
+      mask: opts.mask,
     });
   }
 
+  private async executeEmulate(step: EmulateStep): Promise<void> {
+    const opts = typeof step.emulate === "string" ? { device: step.emulate } : step.emulate;
+    const device = opts.device.toLowerCase() === "none" ? null : opts.device;
+
+    await this.client.emulate(this.pageName, device, { reload: opts.reload });
+  }
+
+  private async executeThrottle(step: ThrottleStep): Promise<void> {
+    const pageName = this.pageName;
+
+    if (step.throttle === "none") {
+      await this.client.throttle(pageName, null);
+    } else if (typeof step.throttle === "string") {
+      await this.client.throttle(pageName, { preset: step.throttle });
+    } else {
+      await this.client.throttle(pageName, step.throttle);
+    }
+  }
+
+  private async executeVitals(step: VitalsStep): Promise<void> {
+    const options = typeof step.vitals === "string" ? { url: step.vitals } : step.vitals;
+    const report = await this.client.vitals(this.pageName, options ?? {});
+    this.lastVitals = report;
+    console.log(
+      `  Vitals: LCP ${report.lcp ?? "-"}ms, CLS ${report.cls}, INP ${report.inp ?? "-"}ms, TTFB ${report.ttfb ?? "-"}ms`
+    );
+  }
+
+  private async executeDownload(step: DownloadStep): Promise<void> {
+    const pageName = this.pageName;
+    const options = typeof step.download === "string" ? { click: step.download } : step.download;
+
+    // Only downloads that finish after this point count
+    const before = await this.client.downloads(pageName);
+    const after = before.length > 0 ? before[before.length - 1]!.id : 0;
+
+    if (options.click) {
+      await this.executeClick({ click: options.click });
+    }
+    const download = await this.client.waitForDownload(pageName, {
+      after,
+      timeout: options.timeout ?? 30000,
+    });
+    if (download.status === "failed") {
+      throw new Error(`Download of ${download.suggestedFilename} failed: ${download.error}`);
+    }
+    this.lastDownload = download;
+    console.log(`  Downloaded: ${download.path} (${download.size} bytes)`);
+  }
+
   private async executeIf(step: IfStep): Promise<void> {
     let condition = false;
 
@@ -622,10 +889,117 @@ class ScenarioExecutor {
         if (assertion.count.max !== undefined && count > assertion.count.max) {
           throw new Error(`Count too high: expected max ${assertion.count.max}, got ${count}`);
         }
+      } else if ("vitals" in assertion) {
+        // On a vitals step use its report, elsewhere read the current document
+        const report =
+          this.lastVitals ?? (await this.client.currentVitals(this.pageName));
+        const checks = Array.isArray(assertion.vitals) ? assertion.vitals : [assertion.vitals];
+        for (const check of checks) {
+          this.checkVitalsThreshold(report, check);
+        }
+      } else if ("download" in assertion) {
+        const download = this.lastDownload ?? (await this.client.downloads(this.pageName)).at(-1);
+        if (!download?.path) {
+          throw new Error(`No completed download on page "${this.pageName}"`);
+        }
+        const { name, contains, minSize } = assertion.download;
+        if (name) {
+          const pattern = name.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+          if (!new RegExp(`^${pattern}$`).test(download.suggestedFilename)) {
+            throw new Error(`Download name "${download.suggestedFilename}" does not match "${name}"`);
+          }
+        }
+        if (minSize !== undefined && (download.size ?? 0) < minSize) {
+          throw new Error(`Download too small: ${download.size} bytes, expected at least ${minSize}`);
+        }
+        if (contains !== undefined && !readFileSync(download.path, "utf-8").includes(contains)) {
+          throw new Error(`Download ${download.suggestedFilename} does not contain "${contains}"`);
+        }
+      } else if ("visualMatch" in assertion) {
+        const opts =
+          typeof assertion.visualMatch === "string"
+            ? { name: assertion.visualMatch }
+            : assertion.visualMatch;
+        await this.checkVisualMatch(opts);
+      } else if ("a11y" in assertion) {
+        await this.checkA11y(assertion.a11y === true ? {} : assertion.a11y);
       }
     }
   }
 
+  // Audit the current page - errors fail by default, warnings only past maxWarnings
+  private async checkA11y(opts: A11yAssertOptions): Promise<void> {
+    const audit = await this.client.auditA11y(this.pageName, { rules: opts.rules });
+    const findings = audit.findings.filter((f) => !opts.ignore?.includes(f.rule));
+    const errors = findings.filter((f) => f.severity === "error");
+    const warnings = findings.filter((f) => f.severity === "warning");
+    const maxErrors = opts.maxErrors ?? 0;
+    const maxWarnings = opts.maxWarnings ?? Infinity;
+    if (errors.length > maxErrors || warnings.length > maxWarnings) {
+      const shown = [...errors, ...warnings]
+        .slice(0, 5)
+        .map((f) => `\n    [${f.rule}] ${f.message} - ${f.ref ?? f.selector}`)
+        .join("");
+      const more = findings.length > 5 ? `\n    ... ${findings.length - 5} more` : "";
+      throw new Error(
+        `Accessibility audit failed: ${errors.length} error(s) (max ${maxErrors}), ${warnings.length} warning(s)${Number.isFinite(maxWarnings) ? ` (max ${maxWarnings})` : ""}${shown}${more}`
+      );
+    }
+  }
+
+  // Compare a stable screenshot to the project's baseline - the first run records it
+  private async checkVisualMatch(opts: VisualMatchOptions): Promise<void> {
+    const shot = await this.client.screenshot(this.pageName, {
+      base64: true,
+      stable: true,
+      fullPage: opts.fullPage ?? true,
+      mask: opts.mask,
+    });
+    const png = Buffer.from(shot.base64!, "base64");
+    const root = defaultBaselinesDir();
+    const key = {
+      project: process.env.PROJECT_PREFIX || "scenarios",
+      page: this.scenario.page || "main",
+      viewport: shot.viewport,
+      name: opts.name,
+    };
+
+    if (!hasBaseline(root, key)) {
+      console.log(`  Baseline created: ${saveBaseline(root, key, png)}`);
+      return;
+    }
+    const report = compareToBaseline(root, key, png, {
+      threshold: opts.threshold,
+      maxDiffPercent: opts.maxDiffPercent,
+    });
+    if (!report.match) {
+      throw new Error(
+        `Visual mismatch: ${report.diffPercent}% of pixels differ (max ${report.maxDiffPercent}%) in ${report.regions.length} region(s) - diff: ${report.diff}`
+      );
+    }
+  }
+
+  private checkVitalsThreshold(report: VitalsReport, check: string): void {
+    const match = check.trim().match(/^(\w+)\s*(<=|<|>=|>)\s*([\d.]+)$/);
+    const metric = match && VITALS_METRICS[match[1]!.toLowerCase()];
+    if (!match || !metric) {
+      throw new Error(
+        `Invalid vitals assertion "${check}" - expected "<metric> < <number>" with metric one of: ${Object.keys(VITALS_METRICS).join(", ")}`
+      );
+    }
+    const [, name, op, raw] = match;
+    const value = metric(report);
+    if (value === null) {
+      throw new Error(`Vitals ${name} not reported for ${report.url}`);
+    }
+    const limit = Number(raw);
+    const ok =
+      op === "<" ? value < limit : op === "<=" ? value <= limit : op === ">" ? value > limit : value >= limit;
+    if (!ok) {
+      throw new Error(`Vitals threshold failed: ${name} = ${value}, expected ${op} ${limit}`);
+    }
+  }
+
   private getStepType(step: Step): string {
     const keys = Object.keys(step).filter((k) => k !== "assert" && k !== "onError");
     return keys[0] || "unknown";
@@ -638,8 +1012,41 @@ class ScenarioExecutor {
 async function main() {
   const args = process.argv.slice(2);
 
+  // --trace on-failure|always (or --trace=<mode>)
+  let trace: TraceMode | undefined;
+  const traceIndex = args.findIndex((a) => a === "--trace" || a.startsWith("--trace="));
+  if (traceIndex !== -1) {
+    const [flag] = args.splice(traceIndex, 1);
+    const value = flag!.includes("=") ? flag!.split("=")[1] : args.splice(traceIndex, 1)[0];
+    if (value !== "on-failure" && value !== "always") {
+      console.error("--trace must be on-failure or always");
+      process.exit(1);
+    }
+    trace = value;
+  }
+
+  // --record: screencast the run
+  const recordIndex = args.indexOf("--record");
+  const record = recordIndex !== -1;
+  if (record) args.splice(recordIndex, 1);
+
+  // --coverage json|html (or --coverage=<format>)
+  let coverage: ExecutorOptions["coverage"];
+  const coverageIndex = args.findIndex((a) => a === "--coverage" || a.startsWith("--coverage="));
+  if (coverageIndex !== -1) {
+    const [flag] = args.splice(coverageIndex, 1);
+    const value = flag!.includes("=") ? flag!.split("=")[1] : args.splice(coverageIndex, 1)[0];
+    if (value !== "json" && value !== "html") {
+      console.error("--coverage must be json or html");
+      process.exit(1);
+    }
+    coverage = value;
+  }
+
   if (args.length === 0) {
-    console.error("Usage: scenario-runner.ts <scenario.yaml>");
+    console.error(
+      "Usage: scenario-runner.ts <scenario.yaml> [--trace on-failure|always] [--record] [--coverage json|html]"
+    );
     process.exit(1);
   }
 
@@ -659,7 +1066,7 @@ async function main() {
     const client = await connect();
 
     // Execute scenario
-    const executor = new ScenarioExecutor(scenario, client);
+    const executor = new ScenarioExecutor(scenario, client, { trace, record, coverage });
     const report = await executor.execute();
 
     // Print report
@@ -682,6 +1089,24 @@ async function main() {
       console.log(`\nFatal error: ${report.error}`);
     }
 
+    if (report.trace) {
+      console.log(`\nTrace: ${report.trace}`);
+      console.log(`  View with: npx playwright show-trace ${report.trace}`);
+    }
+
+    if (report.video) {
+      console.log(`\nVideo: ${report.video}`);
+    }
+
+    if (report.coverage) {
+      const { js, css, files } = report.coverage;
+      const kb = (bytes: number) => `${Math.round(bytes / 1024)} KB`;
+      console.log(`\nCoverage (${files.length} files):`);
+      console.log(`  JS   ${js.usedPercent}% used, ${kb(js.unusedBytes)} of ${kb(js.totalBytes)} unused`);
+      console.log(`  CSS  ${css.usedPercent}% used, ${kb(css.unusedBytes)} of ${kb(css.totalBytes)} unused`);
+      if (report.coverage.report) console.log(`  Report: ${report.coverage.report}`);
+    }
+
     // Disconnect
     await client.disconnect();
 
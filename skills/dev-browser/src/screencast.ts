@@ -0,0 +1,233 @@
+// Screencast recording via CDP Page.startScreencast. Chrome only sends frames when the page
+// repaints, so the latest frame is sampled at a fixed fps into JPEG files on disk; on stop they
+// are encoded to WebM with ffmpeg (system or Playwright's bundled build), or kept as a frame
+// sequence with a small HTML player when no ffmpeg is available.
+
+import { spawn } from "child_process";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import type { CDPSession, Page } from "playwright";
+import type { ScreencastStartRequest, ScreencastStopResponse } from "./types";
+
+const DEFAULTS = { fps: 10, maxDuration: 300_000, quality: 70 };
+
+// Validate a start request - returns an error message or null
+export function validateScreencastRequest(req: ScreencastStartRequest): string | null {
+  if (req.fps !== undefined && (!Number.isFinite(req.fps) || req.fps < 1 || req.fps > 30)) {
+    return "fps must be between 1 and 30";
+  }
+  if (
+    req.maxDuration !== undefined &&
+    (!Number.isFinite(req.maxDuration) || req.maxDuration <= 0)
+  ) {
+    return "maxDuration must be a positive number of ms";
+  }
+  if (
+    req.quality !== undefined &&
+    (!Number.isFinite(req.quality) || req.quality < 1 || req.quality > 100)
+  ) {
+    return "quality must be between 1 and 100";
+  }
+  for (const key of ["maxWidth", "maxHeight"] as const) {
+    const value = req[key];
+    if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+      return `${key} must be a positive number`;
+    }
+  }
+  return null;
+}
+
+// ffmpeg on PATH (or $FFMPEG_PATH), else the one Playwright downloads for its own video recording
+function findFfmpeg(): string | null {
+  if (process.env.FFMPEG_PATH) return process.env.FFMPEG_PATH;
+  for (const dir of (process.env.PATH ?? "").split(":")) {
+    if (dir && existsSync(join(dir, "ffmpeg"))) return join(dir, "ffmpeg");
+  }
+  const browsersDir =
+    process.env.PLAYWRIGHT_BROWSERS_PATH ||
+    (process.platform === "darwin"
+      ? join(homedir(), "Library", "Caches", "ms-playwright")
+      : join(homedir(), ".cache", "ms-playwright"));
+  if (!existsSync(browsersDir)) return null;
+  for (const dir of readdirSync(browsersDir)
+    .filter((d) => d.startsWith("ffmpeg"))
+    .sort()
+    .reverse()) {
+    const binary = readdirSync(join(browsersDir, dir)).find((f) => f.startsWith("ffmpeg"));
+    if (binary) return join(browsersDir, dir, binary);
+  }
+  return null;
+}
+
+// JPEG frame size from its start-of-frame marker
+function jpegSize(buf: Buffer): { width: number; height: number } | null {
+  let offset = 2;
+  while (offset + 9 < buf.length && buf[offset] === 0xff) {
+    const marker = buf[offset + 1]!;
+    if (marker >= 0xc0 && marker <= 0xc3) {
+      return { width: buf.readUInt16BE(offset + 7), height: buf.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + buf.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+// Pipe the frames through ffmpeg into a VP8 WebM (same settings as Playwright's recorder)
+function encodeWebm(ffmpeg: string, frames: string[], fps: number, output: string): Promise<void> {
+  const size = jpegSize(readFileSync(frames[0]!)) ?? { width: 1280, height: 720 };
+  // VP8 needs even dimensions; later frames of another size are padded/cropped to the first
+  const w = size.width - (size.width % 2);
+  const h = size.height - (size.height % 2);
+  // prettier-ignore
+  const args = [
+    "-loglevel", "error",
+    "-f", "image2pipe", "-framerate", String(fps), "-c:v", "mjpeg", "-i", "pipe:0",
+    "-y", "-an", "-r", String(fps),
+    "-c:v", "vp8", "-qmin", "0", "-qmax", "50", "-crf", "8", "-deadline", "realtime", "-speed", "8",
+    "-b:v", "1M", "-threads", "1",
+    "-vf", `pad=${w}:${h}:0:0:gray,crop=${w}:${h}:0:0`,
+    output,
+  ];
+
+  return new Promise((resolve, reject) => {
+    const proc = spawn(ffmpeg, args, { stdio: ["pipe", "ignore", "pipe"] });
+    let stderr = "";
+    proc.stderr.on("data", (d) => (stderr += d));
+    proc.on("error", reject);
+    proc.on("close", (code) =>
+      code === 0 ? resolve() : reject(new Error(`ffmpeg exited with ${code}: ${stderr.trim()}`))
+    );
+    (async () => {
+      for (const frame of frames) {
+        if (!proc.stdin.write(readFileSync(frame))) {
+          await new Promise((r) => proc.stdin.once("drain", r));
+        }
+      }
+      proc.stdin.end();
+    })().catch(reject);
+  });
+}
+
+// Minimal player so a frame sequence can be shared and watched in any browser
+function playerHtml(count: number, fps: number): string {
+  return `<!doctype html>
+<meta charset="utf-8"><title>Screencast</title>
+<body style="margin:0;background:#222;display:grid;place-items:center;min-height:100vh">
+<img id="f" style="max-width:100%">
+<script>
+const count = ${count}, fps = ${fps}, img = document.getElementById("f");
+let i = 0;
+const name = (n) => "frame-" + String(n + 1).padStart(6, "0") + ".jpg";
+setInterval(() => { img.src = name(i); i = (i + 1) % count; }, 1000 / fps);
+</script>
+`;
+}
+
+/**
+ * Start recording a page. Frames are sampled into framesDir; finish() stops capturing (if the
+ * max duration hasn't already) and writes the video to output (".webm" is swapped for a
+ * directory when falling back to frames).
+ */
+export async function startScreencast(
+  page: Page,
+  framesDir: string,
+  options: ScreencastStartRequest = {}
+) {
+  const fps = options.fps ?? DEFAULTS.fps;
+  const maxDuration = options.maxDuration ?? DEFAULTS.maxDuration;
+  const startedAt = new Date().toISOString();
+  const session: CDPSession = await page.context().newCDPSession(page);
+  mkdirSync(framesDir, { recursive: true });
+
+  let latest: Buffer | null = null;
+  let count = 0;
+  let capturing = true;
+  let stoppedBy: ScreencastStopResponse["stoppedBy"] = "request";
+
+  session.on("Page.screencastFrame", (frame) => {
+    latest = Buffer.from(frame.data, "base64");
+    session.send("Page.screencastFrameAck", { sessionId: frame.sessionId }).catch(() => {});
+  });
+
+  // Repeat the last frame while the page is idle so playback keeps real time
+  const sampler = setInterval(() => {
+    if (!latest) return;
+    count++;
+    writeFileSync(join(framesDir, `frame-${String(count).padStart(6, "0")}.jpg`), latest);
+  }, 1000 / fps);
+
+  const stopCapture = async () => {
+    if (!capturing) return;
+    capturing = false;
+    clearInterval(sampler);
+    clearTimeout(limit);
+    await session.send("Page.stopScreencast").catch(() => {});
+    await session.detach().catch(() => {});
+  };
+
+  const limit = setTimeout(() => {
+    stoppedBy = "maxDuration";
+    stopCapture().catch(() => {});
+  }, maxDuration);
+
+  await session.send("Page.startScreencast", {
+    format: "jpeg",
+    quality: options.quality ?? DEFAULTS.quality,
+    maxWidth: options.maxWidth,
+    maxHeight: options.maxHeight,
+  });
+
+  return {
+    startedAt,
+    fps,
+
+    get capturing(): boolean {
+      return capturing;
+    },
+
+    /** Stop capturing and encode. reason is recorded unless the max duration already ended it */
+    async finish(
+      output: string,
+      reason: ScreencastStopResponse["stoppedBy"] = "request"
+    ): Promise<ScreencastStopResponse> {
+      if (capturing) stoppedBy = reason;
+      await stopCapture();
+      const duration = Math.min(Date.now() - new Date(startedAt).getTime(), maxDuration);
+      const frames = readdirSync(framesDir)
+        .filter((f) => f.endsWith(".jpg"))
+        .sort()
+        .map((f) => join(framesDir, f));
+
+      const result = { frames: frames.length, fps, duration, stoppedBy };
+      if (frames.length === 0) {
+        rmSync(framesDir, { recursive: true, force: true });
+        throw new Error("No frames captured - the page never painted while recording");
+      }
+
+      const ffmpeg = findFfmpeg();
+      if (ffmpeg) {
+        mkdirSync(dirname(output), { recursive: true });
+        await encodeWebm(ffmpeg, frames, fps, output);
+        rmSync(framesDir, { recursive: true, force: true });
+        return { path: output, format: "webm", ...result };
+      }
+
+      const dir = output.replace(/\.webm$/, "");
+      writeFileSync(join(framesDir, "index.html"), playerHtml(frames.length, fps));
+      mkdirSync(dirname(dir), { recursive: true });
+      renameSync(framesDir, dir);
+      return { path: dir, format: "frames", ...result };
+    },
+  };
+}
+
+export type Screencast = Awaited<ReturnType<typeof startScreencast>>;
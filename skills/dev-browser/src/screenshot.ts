@@ -0,0 +1,245 @@
+// Screenshot capture - whole page, element (selector/ref) or region, with format
+// conversion and downscaling done by the browser's own image codecs (no native image deps)
+
+import type { ElementHandle, Page } from "playwright";
+import { isSnapshotRef, requireRef } from "./refs";
+import type { ScreenshotRequest } from "./types";
+
+type Rect = { x: number; y: number; width: number; height: number };
+type CaptureOptions = Pick<
+  NonNullable<Parameters<Page["screenshot"]>[0]>,
+  "animations" | "caret" | "mask" | "maskColor"
+>;
+
+// Marks ref-resolved mask targets so they can be masked through a locator
+const MASK_ATTR = "data-dev-browser-mask";
+
+// Upper bound on waiting for web fonts - a stuck font load shouldn't block the capture
+const FONTS_TIMEOUT_MS = 5000;
+
+const FORMATS = ["png", "jpeg", "webp"] as const;
+
+export const MIME_TYPES: Record<(typeof FORMATS)[number], string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+// Validate a screenshot request - returns an error message or null
+export function validateScreenshotRequest(req: ScreenshotRequest): string | null {
+  const targets = [req.selector, req.ref, req.clip].filter((t) => t !== undefined);
+  if (targets.length > 1) {
+    return "use only one of selector, ref or clip";
+  }
+  if (req.format !== undefined && !FORMATS.includes(req.format)) {
+    return `format must be one of: ${FORMATS.join(", ")}`;
+  }
+  if (
+    req.quality !== undefined &&
+    (!Number.isFinite(req.quality) || req.quality < 0 || req.quality > 100)
+  ) {
+    return "quality must be between 0 and 100";
+  }
+  if (req.clip) {
+    const { x, y, width, height } = req.clip;
+    if (![x, y, width, height].every(Number.isFinite) || width <= 0 || height <= 0) {
+      return "clip needs numeric x, y and positive width, height";
+    }
+  }
+  if (
+    req.mask !== undefined &&
+    (!Array.isArray(req.mask) || !req.mask.every((m) => typeof m === "string" && m))
+  ) {
+    return "mask must be a list of selectors or refs";
+  }
+  for (const key of ["padding", "maxWidth", "maxHeight"] as const) {
+    const value = req[key];
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      return `${key} must be a non-negative number`;
+    }
+  }
+  return null;
+}
+
+/** Pixel size of a PNG or JPEG buffer (null for anything else) */
+export function imageSize(buf: Buffer): { width: number; height: number } | null {
+  // PNG: IHDR is always the first chunk
+  if (buf.length >= 24 && buf.readUInt32BE(0) === 0x89504e47) {
+    return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+  }
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buf.length) {
+      if (buf[offset] !== 0xff) return null;
+      const marker = buf[offset + 1]!;
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isFrame) {
+        return { width: buf.readUInt16BE(offset + 7), height: buf.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + buf.readUInt16BE(offset + 2);
+    }
+  }
+  return null;
+}
+
+/**
+ * Screenshot options for stable mode (animations frozen, caret hidden, web fonts loaded)
+ * and masks (selectors or snapshot refs covered with solid boxes).
+ * Call cleanup() after the capture to remove the attributes used to mask refs.
+ */
+export async function prepareCapture(
+  page: Page,
+  opts: { stable?: boolean; mask?: string[]; maskColor?: string }
+): Promise<{ options: CaptureOptions; cleanup: () => Promise<void> }> {
+  const options: CaptureOptions = {};
+  if (opts.stable) {
+    options.animations = "disabled";
+    options.caret = "hide";
+    await page
+      .evaluate(
+        `Promise.race([document.fonts.ready, new Promise((r) => setTimeout(r, ${FONTS_TIMEOUT_MS}))])`
+      )
+      .catch(() => {});
+  }
+
+  const tagged: ElementHandle[] = [];
+  if (opts.mask?.length) {
+    options.mask = [];
+    options.maskColor = opts.maskColor ?? "#FF00FF";
+    for (const target of opts.mask) {
+      if (isSnapshotRef(target)) {
+        const element = await requireRef(page, target);
+        await element.evaluate((el, attr) => el.setAttribute(attr, ""), MASK_ATTR);
+        tagged.push(element);
+      } else {
+        options.mask.push(page.locator(target));
+      }
+    }
+    if (tagged.length) options.mask.push(page.locator(`[${MASK_ATTR}]`));
+  }
+
+  const cleanup = async () => {
+    for (const element of tagged) {
+      await element.evaluate((el, attr) => el.removeAttribute(attr), MASK_ATTR).catch(() => {});
+    }
+  };
+  return { options, cleanup };
+}
+
+// Grow a rect by padding on every side, clamped to the document origin
+function pad(rect: Rect, padding: number): Rect {
+  const x = Math.max(0, rect.x - padding);
+  const y = Math.max(0, rect.y - padding);
+  return {
+    x,
+    y,
+    width: rect.x + rect.width + padding - x,
+    height: rect.y + rect.height + padding - y,
+  };
+}
+
+// Element bounds in document coordinates (boundingBox is relative to the viewport)
+async function elementRect(page: Page, element: ElementHandle): Promise<Rect> {
+  await element.scrollIntoViewIfNeeded({ timeout: 5000 }).catch(() => {});
+  const box = await element.boundingBox();
+  if (!box) throw new Error("Element is not visible (no bounding box)");
+  const scroll = (await page.evaluate("({ x: window.scrollX, y: window.scrollY })")) as {
+    x: number;
+    y: number;
+  };
+  return { x: box.x + scroll.x, y: box.y + scroll.y, width: box.width, height: box.height };
+}
+
+// Re-encode (and optionally resize) an image with the page's canvas - covers webp,
+// which page.screenshot can't produce, and downscaling without an image library
+async function encodeInPage(
+  page: Page,
+  png: Buffer,
+  size: { width: number; height: number },
+  mimeType: string,
+  quality: number
+): Promise<Buffer> {
+  const data = await page.evaluate(
+    async ({ data, width, height, mimeType, quality }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const w = globalThis as any;
+      const bytes = Uint8Array.from(w.atob(data), (c: string) => c.charCodeAt(0));
+      // Resizing while decoding keeps huge full-page captures under canvas size limits
+      const bitmap = await w.createImageBitmap(new w.Blob([bytes], { type: "image/png" }), {
+        resizeWidth: width,
+        resizeHeight: height,
+        resizeQuality: "high",
+      });
+      const canvas = new w.OffscreenCanvas(width, height);
+      canvas.getContext("2d").drawImage(bitmap, 0, 0);
+      bitmap.close();
+      const blob = await canvas.convertToBlob({ type: mimeType, quality: quality / 100 });
+      const out = new Uint8Array(await blob.arrayBuffer());
+      let binary = "";
+      for (let i = 0; i < out.length; i += 0x8000) {
+        binary += String.fromCharCode(...out.subarray(i, i + 0x8000));
+      }
+      return w.btoa(binary) as string;
+    },
+    { data: png.toString("base64"), ...size, mimeType, quality }
+  );
+  return Buffer.from(data, "base64");
+}
+
+/**
+ * Capture a screenshot per the request. element is the resolved selector/ref target, if any.
+ * Element and clip captures are taken from the full page, so they work outside the viewport.
+ */
+export async function takeScreenshot(
+  page: Page,
+  req: ScreenshotRequest,
+  element?: ElementHandle
+): Promise<{ buffer: Buffer; mimeType: string; width: number; height: number; resized: boolean }> {
+  const format = req.format ?? "png";
+  const quality = req.quality ?? 80;
+  const padding = req.padding ?? 0;
+
+  let clip: Rect | undefined;
+  if (element) {
+    clip = pad(await elementRect(page, element), padding);
+  } else if (req.clip) {
+    clip = pad(req.clip, padding);
+  }
+  const fullPage = clip ? true : req.fullPage !== false;
+
+  // Capture losslessly when the browser has to re-encode afterwards
+  const limited = req.maxWidth !== undefined || req.maxHeight !== undefined;
+  const direct = format !== "webp" && !limited;
+  const { options, cleanup } = await prepareCapture(page, req);
+  let buffer: Buffer;
+  try {
+    buffer = await page.screenshot({
+      ...options,
+      fullPage,
+      clip,
+      type: direct ? format : "png",
+      quality: direct && format === "jpeg" ? quality : undefined,
+    });
+  } finally {
+    await cleanup();
+  }
+
+  const size = imageSize(buffer);
+  if (!size) throw new Error("Could not read screenshot dimensions");
+  const scale = Math.min(
+    1,
+    req.maxWidth ? req.maxWidth / size.width : 1,
+    req.maxHeight ? req.maxHeight / size.height : 1
+  );
+  const target = {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+  const resized = scale < 1;
+
+  if (!direct && (resized || format !== "png")) {
+    buffer = await encodeInPage(page, buffer, target, MIME_TYPES[format], quality);
+  }
+  return { buffer, mimeType: MIME_TYPES[format], ...target, resized };
+}
@@ -42,6 +42,42 @@ async function getSnapshot(): Promise<string> {
   }, script);
 }
 
+async function audit(): Promise<Array<{ rule: string; ref: string | null; selector: string }>> {
+  const script = getSnapshotScript();
+  return await page.evaluate((s: string) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const w = globalThis as any;
+    if (!w.__devBrowser_auditA11y) {
+      // eslint-disable-next-line no-eval
+      eval(s);
+    }
+    return w.__devBrowser_auditA11y();
+  }, script);
+}
+
+interface ContrastCheck {
+  text: string;
+  ref: string | null;
+  background: string | null;
+  ratio: number | null;
+  large: boolean;
+  aa: string;
+  aaa: string;
+}
+
+async function checkContrast(): Promise<ContrastCheck[]> {
+  const script = getSnapshotScript();
+  return await page.evaluate((s: string) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const w = globalThis as any;
+    if (!w.__devBrowser_checkContrast) {
+      // eslint-disable-next-line no-eval
+      eval(s);
+    }
+    return w.__devBrowser_checkContrast();
+  }, script);
+}
+
 async function selectRef(ref: string): Promise<unknown> {
   return await page.evaluate((refId: string) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -221,3 +257,181 @@ describe("ARIA Snapshot", () => {
     expect(snapshot).toContain("[checked]");
   });
 });
+
+describe("Accessibility audit", () => {
+  test("flags unnamed buttons and links, images without alt and unlabelled inputs", async () => {
+    await setContent(`
+      <html>
+        <body>
+          <button><svg width="10" height="10"></svg></button>
+          <a href="/home"></a>
+          <img src="data:image/gif;base64,R0lGODlhAQABAAAAACw=" width="10" height="10" />
+          <input type="text" />
+          <label>Email <input type="email" /></label>
+        </body>
+      </html>
+    `);
+
+    const rules = (await audit()).map((f) => f.rule);
+
+    expect(rules.filter((r) => r === "empty-name")).toHaveLength(2);
+    expect(rules).toContain("img-alt");
+    expect(rules.filter((r) => r === "missing-label")).toHaveLength(1);
+  });
+
+  test("findings carry refs and selectors", async () => {
+    await setContent(`
+      <html>
+        <body>
+          <div id="toolbar"><button></button></div>
+        </body>
+      </html>
+    `);
+
+    const [finding] = await audit();
+
+    expect(finding!.rule).toBe("empty-name");
+    expect(finding!.ref).toMatch(/^e\d+$/);
+    expect(finding!.selector).toBe("#toolbar > button");
+  });
+
+  test("flags skipped heading levels", async () => {
+    await setContent(`
+      <html>
+        <body>
+          <h1>Title</h1>
+          <h2>Section</h2>
+          <h4>Too deep</h4>
+        </body>
+      </html>
+    `);
+
+    const findings = await audit();
+
+    expect(findings.map((f) => f.rule)).toEqual(["heading-order"]);
+  });
+
+  test("flags duplicate and missing ids referenced by aria attributes", async () => {
+    await setContent(`
+      <html>
+        <body>
+          <span id="hint">One</span>
+          <span id="hint">Two</span>
+          <input type="text" aria-label="Name" aria-describedby="hint" />
+          <input type="text" aria-label="City" aria-describedby="nowhere" />
+        </body>
+      </html>
+    `);
+
+    const rules = (await audit()).map((f) => f.rule);
+
+    expect(rules).toContain("duplicate-id");
+    expect(rules).toContain("missing-id-ref");
+  });
+
+  test("flags interactive elements that don't receive pointer events", async () => {
+    await setContent(`
+      <html>
+        <body>
+          <button style="pointer-events: none">Buy</button>
+        </body>
+      </html>
+    `);
+
+    const rules = (await audit()).map((f) => f.rule);
+
+    expect(rules).toEqual(["no-pointer-events"]);
+  });
+
+  test("gives pointer-events: none findings a ref that resolves to the element", async () => {
+    await setContent(`
+      <html>
+        <body>
+          <button style="pointer-events: none">Buy</button>
+        </body>
+      </html>
+    `);
+
+    const [finding] = await audit();
+
+    expect(finding?.ref).toMatch(/^e\d+$/);
+    const text = await page.evaluate(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (ref) => (globalThis as any).__devBrowserRefs[ref]?.textContent,
+      finding!.ref!
+    );
+    expect(text).toBe("Buy");
+  });
+});
+
+describe("Contrast check", () => {
+  test("computes WCAG ratios with large-text thresholds", async () => {
+    await setContent(`
+      <html>
+        <body style="background: #fff">
+          <p style="color: #777; font-size: 16px">Small grey</p>
+          <p style="color: #777; font-size: 24px">Large grey</p>
+          <p style="color: #000">Black</p>
+        </body>
+      </html>
+    `);
+
+    const results = await checkContrast();
+    const byText = Object.fromEntries(results.map((r) => [r.text, r]));
+
+    expect(byText["Small grey"]!.ratio).toBeCloseTo(4.48, 1);
+    expect(byText["Small grey"]!.aa).toBe("fail");
+    expect(byText["Large grey"]!.large).toBe(true);
+    expect(byText["Large grey"]!.aa).toBe("pass");
+    expect(byText["Large grey"]!.aaa).toBe("fail");
+    expect(byText["Black"]!.ratio).toBe(21);
+  });
+
+  test("composites translucent backgrounds over ancestors", async () => {
+    await setContent(`
+      <html>
+        <body style="background: #fff">
+          <div style="background: rgba(0, 0, 0, 0.5)">
+            <p style="color: #000">On grey</p>
+          </div>
+        </body>
+      </html>
+    `);
+
+    const [result] = await checkContrast();
+
+    expect(result!.background).toBe("#808080");
+  });
+
+  test("reports background images as unknown", async () => {
+    await setContent(`
+      <html>
+        <body>
+          <div style="background-image: linear-gradient(#000, #333)">
+            <p style="color: #fff">Hero</p>
+          </div>
+        </body>
+      </html>
+    `);
+
+    const [result] = await checkContrast();
+
+    expect(result!.aa).toBe("unknown");
+    expect(result!.ratio).toBeNull();
+  });
+
+  test("attaches the nearest snapshot ref", async () => {
+    await setContent(`
+      <html>
+        <body>
+          <button style="color: #ccc; background: #fff">Faint</button>
+        </body>
+      </html>
+    `);
+
+    const [result] = await checkContrast();
+
+    expect(result!.ref).toMatch(/^e\d+$/);
+    expect(result!.aa).toBe("fail");
+  });
+});
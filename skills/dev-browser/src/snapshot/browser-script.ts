@@ -5,8 +5,9 @@
  * injected into the browser via page.addScriptTag() or page.evaluate().
  *
  * The approach is to read the compiled JavaScript at runtime and bundle it
- * into a single script that exposes window.__devBrowser_getAISnapshot() and
- * window.__devBrowser_selectSnapshotRef().
+ * into a single script that exposes window.__devBrowser_getAISnapshot(),
+ * window.__devBrowser_selectSnapshotRef(), window.__devBrowser_auditA11y() and
+ * window.__devBrowser_checkContrast().
  */
 
 import * as fs from "fs";
@@ -21,6 +22,7 @@ let cachedScript: string | null = null;
  * 1. Defines all necessary functions (domUtils, roleUtils, yaml, ariaSnapshot)
  * 2. Exposes window.__devBrowser_getAISnapshot()
  * 3. Exposes window.__devBrowser_selectSnapshotRef()
+ * 4. Exposes window.__devBrowser_auditA11y() and window.__devBrowser_checkContrast()
  */
 export function getSnapshotScript(): string {
   if (cachedScript) return cachedScript;
@@ -39,10 +41,14 @@ export function getSnapshotScript(): string {
   ${getYamlCode()}
   ${getRoleUtilsCode()}
   ${getAriaSnapshotCode()}
+  ${getA11yAuditCode()}
+  ${getContrastCode()}
 
   // Expose main functions
   window.__devBrowser_getAISnapshot = getAISnapshot;
   window.__devBrowser_selectSnapshotRef = selectSnapshotRef;
+  window.__devBrowser_auditA11y = auditA11y;
+  window.__devBrowser_checkContrast = checkContrast;
 })();
 `;
 
@@ -869,6 +875,299 @@ function selectSnapshotRef(ref) {
 `;
 }
 
+function getA11yAuditCode(): string {
+  return `
+// === a11yAudit ===
+const kNameRequiredRoles = ["button","link","menuitem","menuitemcheckbox","menuitemradio","tab","treeitem"];
+const kFormControlRoles = ["textbox","searchbox","combobox","listbox","checkbox","radio","slider","spinbutton","switch"];
+const kIdRefAttributes = ["aria-labelledby","aria-describedby","aria-controls","aria-owns","aria-activedescendant","aria-details","aria-errormessage","aria-flowto","for"];
+
+// Document plus every open shadow root, in tree order
+function collectRoots(root, roots = []) {
+  roots.push(root);
+  for (const element of root.querySelectorAll("*")) {
+    if (element.shadowRoot) collectRoots(element.shadowRoot, roots);
+  }
+  return roots;
+}
+
+// Selector path up to the nearest unique id; Playwright's CSS engine pierces shadow roots,
+// so hosts are joined with a descendant combinator
+function auditSelector(element) {
+  const root = element.getRootNode();
+  const parts = [];
+  for (let e = element; e && e.nodeType === Node.ELEMENT_NODE; e = e.parentElement) {
+    if (e.id && root.querySelectorAll("#" + CSS.escape(e.id)).length === 1) {
+      parts.unshift("#" + CSS.escape(e.id));
+      break;
+    }
+    let part = e.localName;
+    const siblings = e.parentElement ? [...e.parentElement.children].filter(c => c.localName === e.localName) : [];
+    if (siblings.length > 1) part += ":nth-of-type(" + (siblings.indexOf(e) + 1) + ")";
+    parts.unshift(part);
+  }
+  const selector = parts.join(" > ");
+  return root instanceof ShadowRoot ? auditSelector(root.host) + " " + selector : selector;
+}
+
+function auditHtml(element) {
+  const html = element.outerHTML.replace(/\\s+/g, " ");
+  const open = html.slice(0, html.indexOf(">") + 1) || html;
+  return open.length > 160 ? open.slice(0, 157) + "..." : open;
+}
+
+// Fresh snapshot refs, so findings point at refs that click/fill can resolve
+function refreshSnapshotRefs() {
+  const snapshot = generateAriaTree(document.body);
+  const refsObject = {};
+  for (const [ref, element] of snapshot.elements) refsObject[ref] = element;
+  window.__devBrowserRefs = refsObject;
+  return snapshot;
+}
+
+// Elements the snapshot skips (they don't receive pointer events) get a ref of their own,
+// reusing the element's ref when its role and name haven't changed
+function assignAuditRef(element, role, name) {
+  let ariaRef = element._ariaRef;
+  if (!ariaRef || ariaRef.role !== role || ariaRef.name !== name) {
+    ariaRef = { role, name, ref: "e" + (++lastRef) };
+    element._ariaRef = ariaRef;
+  }
+  window.__devBrowserRefs[ariaRef.ref] = element;
+  return ariaRef.ref;
+}
+
+function auditA11y() {
+  const snapshot = refreshSnapshotRefs();
+
+  const findings = [];
+  const report = (rule, severity, element, message, ref) => {
+    const role = getAriaRole(element);
+    findings.push({
+      rule, severity, message,
+      ref: ref || snapshot.refs.get(element) || null,
+      selector: auditSelector(element),
+      role: role || undefined,
+      name: normalizeWhiteSpace(getElementAccessibleName(element, false) || "") || undefined,
+      html: auditHtml(element),
+    });
+  };
+
+  beginAriaCaches();
+  try {
+    // Checks on the rendered accessibility tree
+    let previousLevel = 0;
+    const visitNode = (node) => {
+      if (typeof node === "string") return;
+      const { role, name, element } = node;
+      if (element && element !== document.body && role !== "fragment") {
+        if (kNameRequiredRoles.includes(role) && !name) {
+          report("empty-name", "error", element, role + " has no accessible name");
+        }
+        if (kFormControlRoles.includes(role)) {
+          const placeholder = normalizeWhiteSpace(element.getAttribute("placeholder") || "");
+          if (!name) {
+            report("missing-label", "error", element, role + " has no label");
+          } else if (placeholder && name === placeholder && !element.labels?.length && !hasExplicitAccessibleName(element) && !element.title) {
+            report("placeholder-label", "warning", element, role + " is labelled only by its placeholder");
+          }
+        }
+        if (role === "img" && !name && elementSafeTagName(element) !== "IMG") {
+          report("img-alt", "error", element, "img role has no accessible name");
+        }
+        if (role === "heading") {
+          const level = getAriaLevel(element);
+          if (previousLevel && level > previousLevel + 1) {
+            report("heading-order", "warning", element, "Heading level " + level + " skips from level " + previousLevel);
+          }
+          previousLevel = level;
+        }
+        const interactive = kNameRequiredRoles.includes(role) || kFormControlRoles.includes(role) || (isFocusable(element) && element.tabIndex >= 0);
+        if (interactive && node.box.visible && !node.receivesPointerEvents && !getAriaDisabled(element) && !isNativelyDisabled(element)) {
+          report("no-pointer-events", "warning", element, "Interactive element is visible but has pointer-events: none", assignAuditRef(element, role, name));
+        }
+      }
+      for (const child of node.children || []) visitNode(child);
+    };
+    visitNode(snapshot.root);
+
+    // Images, ID references and duplicate IDs per document/shadow root
+    for (const root of collectRoots(document)) {
+      for (const img of root.querySelectorAll("img")) {
+        if (isElementHiddenForAria(img) || ["none","presentation"].includes(getAriaRole(img) || "")) continue;
+        if (!img.hasAttribute("alt") && !hasExplicitAccessibleName(img) && !img.title) {
+          report("img-alt", "error", img, "Image has no alt attribute");
+        }
+      }
+
+      const idCounts = new Map();
+      for (const element of root.querySelectorAll("[id]")) idCounts.set(element.id, (idCounts.get(element.id) || 0) + 1);
+      const selector = kIdRefAttributes.map(attr => attr === "for" ? "label[for]" : "[" + attr + "]").join(",");
+      for (const element of root.querySelectorAll(selector)) {
+        if (isElementHiddenForAria(element) && elementSafeTagName(element) !== "LABEL") continue;
+        for (const attr of kIdRefAttributes) {
+          if (attr === "for" && elementSafeTagName(element) !== "LABEL") continue;
+          for (const id of (element.getAttribute(attr) || "").split(/\\s+/).filter(Boolean)) {
+            const count = idCounts.get(id) || 0;
+            if (count > 1) {
+              report("duplicate-id", "error", element, attr + ' references id "' + id + '", which ' + count + " elements share");
+            } else if (count === 0) {
+              report("missing-id-ref", "warning", element, attr + ' references missing id "' + id + '"');
+            }
+          }
+        }
+      }
+    }
+  } finally {
+    endAriaCaches();
+  }
+  return findings;
+}
+`;
+}
+
+function getContrastCode(): string {
+  return `
+// === contrast ===
+let contrastContext;
+const parsedColors = new Map();
+
+// Any CSS color to sRGB 0-255 + alpha; non-rgb() syntaxes (oklch, color(), ...) go through a canvas pixel
+function parseCssColor(value) {
+  let color = parsedColors.get(value);
+  if (color) return color;
+  const m = value.match(/^rgba?\\(\\s*([\\d.]+)[,\\s]+([\\d.]+)[,\\s]+([\\d.]+)(?:\\s*[,/]\\s*([\\d.]+)(%?))?\\s*\\)$/);
+  if (m) {
+    const alpha = m[4] === undefined ? 1 : parseFloat(m[4]) / (m[5] ? 100 : 1);
+    color = { r: +m[1], g: +m[2], b: +m[3], a: alpha };
+  } else {
+    contrastContext = contrastContext || document.createElement("canvas").getContext("2d", { willReadFrequently: true });
+    contrastContext.clearRect(0, 0, 1, 1);
+    contrastContext.fillStyle = "rgba(0, 0, 0, 0)";
+    contrastContext.fillStyle = value;
+    contrastContext.fillRect(0, 0, 1, 1);
+    const [r, g, b, a] = contrastContext.getImageData(0, 0, 1, 1).data;
+    color = { r, g, b, a: a / 255 };
+  }
+  parsedColors.set(value, color);
+  return color;
+}
+
+// Source-over compositing of top onto bottom
+function blendColors(top, bottom) {
+  const a = top.a + bottom.a * (1 - top.a);
+  if (a === 0) return { r: 0, g: 0, b: 0, a: 0 };
+  const mix = (t, b) => (t * top.a + b * bottom.a * (1 - top.a)) / a;
+  return { r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b), a };
+}
+
+function formatColor(c) {
+  const hex = (v) => Math.round(v).toString(16).padStart(2, "0");
+  if (c.a >= 1) return "#" + hex(c.r) + hex(c.g) + hex(c.b);
+  return "rgba(" + Math.round(c.r) + ", " + Math.round(c.g) + ", " + Math.round(c.b) + ", " + Math.round(c.a * 100) / 100 + ")";
+}
+
+// WCAG 2 relative luminance and contrast ratio
+function relativeLuminance(c) {
+  const channel = (v) => { v /= 255; return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4); };
+  return 0.2126 * channel(c.r) + 0.7152 * channel(c.g) + 0.0722 * channel(c.b);
+}
+
+function contrastRatio(a, b) {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+// Ancestor backgrounds composited down to the first opaque one (white canvas below that).
+// A background image on the way makes the result unknown.
+function resolveBackground(element) {
+  const layers = [];
+  for (let e = element; e; e = parentElementOrShadowHost(e)) {
+    const style = getElementComputedStyle(e);
+    if (!style) continue;
+    if (style.backgroundImage && style.backgroundImage !== "none") return { unknown: "background-image", element: e };
+    const color = parseCssColor(style.backgroundColor);
+    if (color.a > 0) layers.push(color);
+    if (color.a >= 1) break;
+  }
+  let background = { r: 255, g: 255, b: 255, a: 1 };
+  for (let i = layers.length - 1; i >= 0; i--) background = blendColors(layers[i], background);
+  return { color: background };
+}
+
+function checkContrast() {
+  const snapshot = refreshSnapshotRefs();
+  const textByElement = new Map();
+  for (const root of collectRoots(document)) {
+    const walker = document.createTreeWalker(root === document ? document.body : root, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const element = node.parentElement;
+      if (!element || !node.nodeValue.trim() || !isVisibleTextNode(node)) continue;
+      textByElement.set(element, (textByElement.get(element) || "") + node.nodeValue);
+    }
+  }
+
+  const results = [];
+  beginAriaCaches();
+  try {
+    for (const [element, text] of textByElement) {
+      const style = getElementComputedStyle(element);
+      if (!style || !isElementStyleVisibilityVisible(element, style)) continue;
+      // Screen-reader-only text (1px clip) isn't seen
+      const rect = element.getBoundingClientRect();
+      if (rect.width <= 1 || rect.height <= 1) continue;
+      // Disabled controls are exempt from WCAG contrast requirements
+      const control = element.closest("button, input, select, textarea, option, [aria-disabled]");
+      if (control && (isNativelyDisabled(control) || getAriaBoolean(control.getAttribute("aria-disabled")) === true)) continue;
+
+      // Opacity of the element and its ancestors fades the text toward its background
+      let opacity = 1;
+      for (let e = element; e; e = parentElementOrShadowHost(e)) opacity *= parseFloat(getElementComputedStyle(e)?.opacity ?? "1");
+      if (opacity === 0) continue;
+
+      const fill = parseCssColor(style.webkitTextFillColor || style.color);
+      const foreground = { ...fill, a: fill.a * opacity };
+      const fontSize = parseFloat(style.fontSize);
+      const fontWeight = parseInt(style.fontWeight, 10) || 400;
+      // WCAG large text: 18pt (24px), or 14pt (18.66px) bold
+      const large = fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700);
+
+      let ref = null;
+      for (let e = element; e && !ref; e = parentElementOrShadowHost(e)) ref = snapshot.refs.get(e) || null;
+      const result = {
+        text: normalizeWhiteSpace(text).slice(0, 80),
+        ref,
+        selector: auditSelector(element),
+        color: formatColor(foreground),
+        background: null,
+        ratio: null,
+        fontSize,
+        fontWeight,
+        large,
+        aa: "unknown",
+        aaa: "unknown",
+      };
+
+      const background = resolveBackground(element);
+      if (background.unknown) {
+        result.reason = "background image on " + auditSelector(background.element);
+      } else {
+        const ratio = contrastRatio(blendColors(foreground, background.color), background.color);
+        result.background = formatColor(background.color);
+        result.ratio = Math.floor(ratio * 100) / 100;
+        result.aa = ratio >= (large ? 3 : 4.5) ? "pass" : "fail";
+        result.aaa = ratio >= (large ? 4.5 : 7) ? "pass" : "fail";
+      }
+      results.push(result);
+    }
+  } finally {
+    endAriaCaches();
+  }
+  return results;
+}
+`;
+}
+
 /**
  * Clear the cached script (useful for development/testing)
  */
@@ -8,7 +8,8 @@
  *   import { getSnapshotScript } from './snapshot';
  *   const script = getSnapshotScript();
  *   await page.evaluate(script);
- *   // Now window.__devBrowser_getAISnapshot() and window.__devBrowser_selectSnapshotRef(ref) are available
+ *   // Now window.__devBrowser_getAISnapshot(), window.__devBrowser_selectSnapshotRef(ref) and
+ *   // window.__devBrowser_auditA11y() are available
  */
 
 export { getSnapshotScript, clearSnapshotScriptCache } from "./browser-script";
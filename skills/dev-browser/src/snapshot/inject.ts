@@ -7,6 +7,7 @@
  * The script is injected via page.evaluate() and exposes:
  * - window.__devBrowser_getAISnapshot(): Returns ARIA snapshot YAML
  * - window.__devBrowser_selectSnapshotRef(ref): Returns element for given ref
+ * - window.__devBrowser_auditA11y(): Returns accessibility findings (refreshes refs)
  * - window.__devBrowserRefs: Map of ref -> Element (persists across connections)
  */
 
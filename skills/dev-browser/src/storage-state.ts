@@ -0,0 +1,258 @@
+// Saved auth state - cookies, localStorage and sessionStorage for a context or a single origin
+// Shared by the server's state endpoints and the login pattern, so both read the same files
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import type { BrowserContext, CDPSession, Page } from "playwright";
+import type { SavedState, SavedStateOrigin } from "./types";
+
+type StorageItems = SavedStateOrigin["localStorage"];
+
+// What an import still has to seed. Tracked here rather than in the page's storage so the app
+// sees exactly the saved keys: localStorage is shared by the context, so each origin is seeded
+// once per context; sessionStorage belongs to a tab, so once per page.
+interface ContextSeeds {
+  origins: Map<string, SavedStateOrigin>;
+  localSeeded: Set<string>;
+  pages: Map<Page, PageSeeds>;
+}
+
+interface PageSeeds {
+  sessionSeeded: Set<string>;
+  // Seed script registered over CDP - unlike addInitScript it can be removed once it has run
+  cdp: Promise<CDPSession>;
+  scriptId?: string;
+  // Script updates run one at a time per page
+  queue: Promise<void>;
+}
+
+const contextSeeds = new WeakMap<BrowserContext, ContextSeeds>();
+
+// Runs before the page's own scripts - seeds the storage of the origin it loads
+function seedScript(seeds: Record<string, { local: StorageItems; session: StorageItems }>): string {
+  return `(() => {
+  const seed = ${JSON.stringify(seeds)}[location.origin];
+  if (!seed) return;
+  try {
+    for (const { name, value } of seed.local) localStorage.setItem(name, value);
+    for (const { name, value } of seed.session) sessionStorage.setItem(name, value);
+  } catch {
+    // Storage disabled for this origin (sandboxed iframe, opaque origin)
+  }
+})();`;
+}
+
+// What a page still needs seeded, by origin
+function pendingSeeds(seeds: ContextSeeds, pageSeeds: PageSeeds) {
+  const pending: Record<string, { local: StorageItems; session: StorageItems }> = {};
+  for (const [origin, o] of seeds.origins) {
+    const local = seeds.localSeeded.has(origin) ? [] : o.localStorage;
+    const session = pageSeeds.sessionSeeded.has(origin) ? [] : o.sessionStorage;
+    if (local.length || session.length) pending[origin] = { local, session };
+  }
+  return pending;
+}
+
+// Replace the page's seed script with one for what it still needs
+function rearm(seeds: ContextSeeds, page: Page): Promise<void> {
+  const pageSeeds = seeds.pages.get(page);
+  if (!pageSeeds) return Promise.resolve();
+  pageSeeds.queue = pageSeeds.queue.then(async () => {
+    const cdp = await pageSeeds.cdp;
+    if (pageSeeds.scriptId) {
+      await cdp.send("Page.removeScriptToEvaluateOnNewDocument", {
+        identifier: pageSeeds.scriptId,
+      });
+      pageSeeds.scriptId = undefined;
+    }
+    const pending = pendingSeeds(seeds, pageSeeds);
+    if (Object.keys(pending).length === 0) return;
+    const { identifier } = await cdp.send("Page.addScriptToEvaluateOnNewDocument", {
+      source: seedScript(pending),
+    });
+    pageSeeds.scriptId = identifier;
+  });
+  // A page that went away mid-update has nothing left to seed
+  pageSeeds.queue = pageSeeds.queue.catch(() => {});
+  return pageSeeds.queue;
+}
+
+// Mark an origin seeded for a page once a document of that origin loaded with the script
+function markSeeded(seeds: ContextSeeds, page: Page, origin: string): void {
+  const pageSeeds = seeds.pages.get(page);
+  const saved = seeds.origins.get(origin);
+  if (!pageSeeds || !saved) return;
+  const pending = pendingSeeds(seeds, pageSeeds)[origin];
+  if (!pending) return;
+  pageSeeds.sessionSeeded.add(origin);
+  if (pending.local.length) {
+    seeds.localSeeded.add(origin);
+    for (const other of seeds.pages.keys()) void rearm(seeds, other);
+  } else {
+    void rearm(seeds, page);
+  }
+}
+
+function trackPage(seeds: ContextSeeds, page: Page): void {
+  if (seeds.pages.has(page)) return;
+  const cdp = page.context().newCDPSession(page);
+  // Awaited by rearm - a page closed before then just has nothing to seed
+  cdp.catch(() => {});
+  seeds.pages.set(page, { sessionSeeded: new Set(), cdp, queue: Promise.resolve() });
+  page.on("framenavigated", (frame) => {
+    if (frame !== page.mainFrame()) return;
+    const origin = originOf(frame.url());
+    if (origin) markSeeded(seeds, page, origin);
+  });
+  page.on("close", () => seeds.pages.delete(page));
+}
+
+function originOf(url: string): string | null {
+  try {
+    const { origin } = new URL(url);
+    return origin === "null" ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+function getContextSeeds(context: BrowserContext): ContextSeeds {
+  let seeds = contextSeeds.get(context);
+  if (!seeds) {
+    const created: ContextSeeds = { origins: new Map(), localSeeded: new Set(), pages: new Map() };
+    context.on("page", (page) => {
+      trackPage(created, page);
+      void rearm(created, page);
+    });
+    contextSeeds.set(context, created);
+    seeds = created;
+  }
+  return seeds;
+}
+
+// Does a cookie domain (".example.com" or "example.com") apply to this hostname?
+function cookieMatchesHost(domain: string, hostname: string): boolean {
+  const bare = domain.replace(/^\./, "");
+  return hostname === bare || hostname.endsWith(`.${bare}`);
+}
+
+/**
+ * Capture cookies + localStorage (via Playwright storageState) and sessionStorage
+ * (read from the context's open pages). Pass origin to keep only that site's state.
+ */
+export async function captureState(
+  context: BrowserContext,
+  options: { origin?: string } = {}
+): Promise<SavedState> {
+  const base = await context.storageState();
+  const origins = new Map<string, SavedStateOrigin>();
+  for (const o of base.origins) {
+    origins.set(o.origin, { origin: o.origin, localStorage: o.localStorage, sessionStorage: [] });
+  }
+
+  // sessionStorage is per tab and not part of storageState
+  for (const page of context.pages()) {
+    const session = await page
+      .evaluate(() => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const w = globalThis as any;
+        const items: Array<{ name: string; value: string }> = [];
+        for (let i = 0; i < w.sessionStorage.length; i++) {
+          const name = w.sessionStorage.key(i);
+          if (name !== null) items.push({ name, value: w.sessionStorage.getItem(name) ?? "" });
+        }
+        return { origin: w.location.origin as string, items };
+      })
+      .catch(() => null);
+    if (!session || session.origin === "null" || session.items.length === 0) continue;
+    const entry = origins.get(session.origin) ?? {
+      origin: session.origin,
+      localStorage: [],
+      sessionStorage: [],
+    };
+    entry.sessionStorage.push(...session.items);
+    origins.set(session.origin, entry);
+  }
+
+  let cookies = base.cookies;
+  let originList = [...origins.values()];
+  if (options.origin) {
+    const { origin, hostname } = new URL(options.origin);
+    cookies = cookies.filter((c) => cookieMatchesHost(c.domain, hostname));
+    originList = originList.filter((o) => o.origin === origin);
+  }
+
+  return { version: 1, savedAt: new Date().toISOString(), cookies, origins: originList };
+}
+
+/**
+ * Apply a saved state to a context: cookies are added right away, storage is written into open
+ * pages of each origin now and seeded before the app's scripts the first time another page of
+ * the context loads it. Importing again re-applies the state, whatever it was seeded from.
+ */
+export async function applyState(context: BrowserContext, state: SavedState): Promise<void> {
+  if (state.cookies.length > 0) {
+    await context.addCookies(state.cookies);
+  }
+  const origins = state.origins.filter((o) => o.localStorage.length || o.sessionStorage.length);
+  if (origins.length === 0) return;
+
+  const seeds = getContextSeeds(context);
+  for (const page of context.pages()) trackPage(seeds, page);
+  for (const o of origins) {
+    seeds.origins.set(o.origin, o);
+    seeds.localSeeded.delete(o.origin);
+    for (const pageSeeds of seeds.pages.values()) pageSeeds.sessionSeeded.delete(o.origin);
+  }
+
+  // Pages already showing an origin get its storage now
+  for (const page of seeds.pages.keys()) {
+    const origin = originOf(page.url());
+    const saved = origin ? origins.find((o) => o.origin === origin) : undefined;
+    if (!origin || !saved) continue;
+    const written = await page
+      .evaluate(
+        ({ local, session }) => {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const w = globalThis as any;
+          for (const { name, value } of local) w.localStorage.setItem(name, value);
+          for (const { name, value } of session) w.sessionStorage.setItem(name, value);
+        },
+        { local: saved.localStorage, session: saved.sessionStorage }
+      )
+      .then(() => true)
+      .catch(() => false);
+    if (written) {
+      seeds.localSeeded.add(origin);
+      seeds.pages.get(page)?.sessionSeeded.add(origin);
+    }
+  }
+
+  await Promise.all([...seeds.pages.keys()].map((page) => rearm(seeds, page)));
+}
+
+/** Resolves once a page's storage seeding is set up - call before navigating a new page */
+export async function stateSeedingReady(page: Page): Promise<void> {
+  const seeds = contextSeeds.get(page.context());
+  if (!seeds) return;
+  if (!seeds.pages.has(page)) {
+    trackPage(seeds, page);
+    void rearm(seeds, page);
+  }
+  await seeds.pages.get(page)?.queue;
+}
+
+export function loadStateFile(path: string): SavedState | null {
+  if (!existsSync(path)) return null;
+  try {
+    const state = JSON.parse(readFileSync(path, "utf-8")) as SavedState;
+    return Array.isArray(state.cookies) && Array.isArray(state.origins) ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveStateFile(path: string, state: SavedState): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(state, null, 2));
+}
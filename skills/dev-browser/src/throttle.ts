@@ -0,0 +1,77 @@
+// Network and CPU throttling via CDP - reproduce slow-3G / low-end-device behaviour on demand
+
+import type { CDPSession } from "playwright";
+import type { ThrottleConditions, ThrottlePreset, ThrottleRequest } from "./types";
+
+// Same numbers as the Chrome DevTools network presets
+export const THROTTLE_PRESETS: Record<ThrottlePreset, Omit<ThrottleConditions, "cpu">> = {
+  "slow-3g": { latency: 2000, downloadKbps: 400, uploadKbps: 400, offline: false },
+  "fast-3g": { latency: 563, downloadKbps: 1440, uploadKbps: 675, offline: false },
+  "4g": { latency: 170, downloadKbps: 8100, uploadKbps: 8100, offline: false },
+  offline: { latency: 0, downloadKbps: -1, uploadKbps: -1, offline: true },
+};
+
+const UNTHROTTLED: ThrottleConditions = {
+  latency: 0,
+  downloadKbps: -1,
+  uploadKbps: -1,
+  offline: false,
+  cpu: 1,
+};
+
+// Resolve a request into concrete conditions - returns an error message for bad input
+export function resolveThrottle(req: ThrottleRequest): ThrottleConditions | string {
+  let base = UNTHROTTLED;
+  if (req.preset !== undefined) {
+    const preset = THROTTLE_PRESETS[req.preset];
+    if (!preset) {
+      return `Unknown preset "${req.preset}". Use: ${Object.keys(THROTTLE_PRESETS).join(", ")}`;
+    }
+    base = { ...UNTHROTTLED, ...preset };
+  }
+
+  const conditions: ThrottleConditions = {
+    latency: req.latency ?? base.latency,
+    downloadKbps: req.downloadKbps ?? base.downloadKbps,
+    uploadKbps: req.uploadKbps ?? base.uploadKbps,
+    offline: req.offline ?? base.offline,
+    cpu: req.cpu ?? base.cpu,
+  };
+  if (!Number.isFinite(conditions.latency) || conditions.latency < 0) {
+    return "latency must be a non-negative number of ms";
+  }
+  for (const key of ["downloadKbps", "uploadKbps"] as const) {
+    const kbps = conditions[key];
+    if (!Number.isFinite(kbps) || (kbps < 0 && kbps !== -1)) {
+      return `${key} must be a non-negative number of kbit/s, or -1 for unlimited`;
+    }
+  }
+  if (!Number.isFinite(conditions.cpu) || conditions.cpu < 1) {
+    return "cpu must be a slowdown factor >= 1";
+  }
+  return conditions;
+}
+
+// kbit/s -> bytes/s as CDP expects, keeping -1 (unlimited)
+function toBytesPerSecond(kbps: number): number {
+  return kbps < 0 ? -1 : (kbps * 1000) / 8;
+}
+
+export async function applyThrottle(
+  cdp: CDPSession,
+  conditions: ThrottleConditions
+): Promise<void> {
+  await cdp.send("Network.enable");
+  await cdp.send("Network.emulateNetworkConditions", {
+    offline: conditions.offline,
+    latency: conditions.latency,
+    downloadThroughput: toBytesPerSecond(conditions.downloadKbps),
+    uploadThroughput: toBytesPerSecond(conditions.uploadKbps),
+  });
+  await cdp.send("Emulation.setCPUThrottlingRate", { rate: conditions.cpu });
+}
+
+export async function clearThrottle(cdp: CDPSession): Promise<void> {
+  await applyThrottle(cdp, UNTHROTTLED);
+  await cdp.send("Network.disable");
+}
@@ -0,0 +1,68 @@
+// Playwright trace recording - tracing belongs to the browser context, so one page per
+// context owns a recording at a time and the trace is titled after it. Traces open in
+// `npx playwright show-trace <zip>` with screenshots, DOM snapshots and sources.
+
+import { mkdirSync, statSync } from "fs";
+import { dirname } from "path";
+import type { BrowserContext, Page } from "playwright";
+import type { TraceStartRequest } from "./types";
+
+interface ActiveTrace {
+  /** Registry name of the page that started the recording */
+  page: string;
+  context: BrowserContext;
+  startedAt: string;
+}
+
+export function createTraceRecorder() {
+  const active = new Map<BrowserContext, ActiveTrace>();
+
+  const find = (page: string) => [...active.values()].find((t) => t.page === page);
+
+  return {
+    /** Page that is recording the given context, if any */
+    ownerOf(context: BrowserContext): string | undefined {
+      return active.get(context)?.page;
+    },
+
+    isRecording(page: string): boolean {
+      return find(page) !== undefined;
+    },
+
+    async start(page: Page, name: string, options: TraceStartRequest = {}): Promise<ActiveTrace> {
+      const context = page.context();
+      await context.tracing.start({
+        title: options.title ?? name,
+        screenshots: options.screenshots ?? true,
+        snapshots: options.snapshots ?? true,
+        sources: options.sources ?? true,
+      });
+      const trace: ActiveTrace = { page: name, context, startedAt: new Date().toISOString() };
+      active.set(context, trace);
+      return trace;
+    },
+
+    /**
+     * Stop the page's recording and write the zip to path (null discards it).
+     * Resolves to null when the page isn't recording.
+     */
+    async stop(
+      page: string,
+      path: string | null
+    ): Promise<{ path: string | null; bytes: number; duration: number } | null> {
+      const trace = find(page);
+      if (!trace) return null;
+      active.delete(trace.context);
+
+      if (path) mkdirSync(dirname(path), { recursive: true });
+      await trace.context.tracing.stop(path ? { path } : undefined);
+      return {
+        path,
+        bytes: path ? statSync(path).size : 0,
+        duration: Date.now() - new Date(trace.startedAt).getTime(),
+      };
+    },
+  };
+}
+
+export type TraceRecorder = ReturnType<typeof createTraceRecorder>;
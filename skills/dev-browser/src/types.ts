@@ -1,5 +1,7 @@
 // API request/response types - shared between client and server
 
+import type { PageElements } from "./discover";
+
 export type BrowserMode = "dev" | "stealth" | "user";
 
 export interface ServeOptions {
@@ -12,22 +14,704 @@ export interface ServeOptions {
   browserMode?: BrowserMode;
   /** CDP port for user mode - where user's Chrome is listening */
   userCdpPort?: number;
+  /** Per-project files root - downloads, traces, videos, coverage reports, HARs, screenshots and
+   * PDFs are saved to <tmpDir>/<project>/<kind> (default: .browser-artifacts in the cwd) */
+  tmpDir?: string;
 }
 
 export interface GetPageRequest {
   name: string;
+  /** Browser context to create the page in (default: "default", the persistent/user context).
+   * Other names get an isolated context with their own cookies and storage. */
+  context?: string;
+  /** Keep a new isolated context's storageState on disk across restarts (default: ephemeral).
+   * Asking for the other mode of an existing context is a 409. */
+  persist?: boolean;
+  /** Dialog policy for a newly created page (default: dismiss) */
+  dialogs?: DialogPolicy;
+  /** Project prefix the page belongs to - selects the downloads directory (default: "shared") */
+  project?: string;
 }
 
 export interface GetPageResponse {
   wsEndpoint: string;
   name: string;
   targetId: string; // CDP target ID for reliable page matching
+  context: string;
 }
 
 export interface ListPagesResponse {
   pages: string[];
+  /** Page name -> CDP target ID */
+  targets?: Record<string, string>;
+  /** Page name -> browser context name */
+  contexts?: Record<string, string>;
+  /** Popup page name -> name of the page that opened it */
+  openers?: Record<string, string>;
+}
+
+export interface ContextInfo {
+  name: string;
+  persist: boolean;
+  pages: string[];
+}
+
+export interface ContextsResponse {
+  contexts: ContextInfo[];
 }
 
 export interface ServerInfoResponse {
   wsEndpoint: string;
 }
+
+export interface SnapshotResponse {
+  /** ARIA snapshot YAML with [ref=eN] markers */
+  snapshot: string;
+  /** Number of refs stored on window.__devBrowserRefs */
+  refCount: number;
+  url: string;
+}
+
+/** A single step for POST /pages/:name/actions. `target` accepts a snapshot ref, text or selector. */
+export type BatchAction =
+  | { action: "goto"; url: string; cachebust?: boolean }
+  | { action: "click"; target: string }
+  | { action: "fill"; target: string; value: string }
+  | { action: "select"; target: string; value: string }
+  | { action: "wait"; target?: string; ms?: number; timeout?: number }
+  | { action: "screenshot"; path?: string; fullPage?: boolean }
+  | { action: "evaluate"; code: string }
+  | { action: "press"; key: string; target?: string };
+
+export interface ActionsRequest {
+  actions: BatchAction[];
+  /** stop (default) skips remaining actions after a failure, continue runs them all */
+  onError?: "stop" | "continue";
+  /** Also run discoverElements() after every passed step (default: only after the last) */
+  discoverEach?: boolean;
+}
+
+export interface ActionStepResult {
+  index: number;
+  action: BatchAction["action"];
+  status: "passed" | "failed" | "skipped";
+  duration: number;
+  result?: unknown;
+  error?: string;
+  /** discoverElements() summary after the step (with discoverEach) */
+  elements?: PageElements;
+}
+
+export interface ActionsResponse {
+  success: boolean;
+  steps: ActionStepResult[];
+  duration: number;
+  url: string;
+  /** discoverElements() summary of the page after the last action - missing when the page
+   * went away or discovery failed */
+  elements?: PageElements;
+}
+
+export interface ConsoleEntry {
+  /** Monotonic id per page - pass the last seen id as ?since= to get only newer entries */
+  id: number;
+  timestamp: string;
+  source: "console" | "pageerror" | "requestfailed";
+  /** console message type (log, info, warning, error, debug, ...) - "error" for page errors */
+  level: string;
+  text: string;
+  location?: { url: string; line?: number; column?: number };
+}
+
+export interface ConsoleResponse {
+  name: string;
+  entries: ConsoleEntry[];
+  /** Id of the newest entry in the buffer (0 if empty) */
+  lastId: number;
+  /** Entries evicted from the ring buffer so far */
+  dropped: number;
+}
+
+export type PageEventType =
+  | "navigation"
+  | "console"
+  | "pageerror"
+  | "requestfailed"
+  | "dialog"
+  | "popup"
+  | "download"
+  | "crash"
+  | "close";
+
+/** Event delivered by the GET /events stream (Server-Sent Events) */
+export interface PageEvent {
+  type: PageEventType;
+  /** Registry name of the page the event came from */
+  page: string;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+export interface HarStartRequest {
+  /** Embed response bodies in the HAR (default: false) */
+  bodies?: boolean;
+  /** Max body size in bytes to embed (default: 1 MB) */
+  maxBodySize?: number;
+}
+
+export interface HarStopRequest {
+  /** Where to write the HAR file (default: <tmpDir>/<project>/har/<name>-<timestamp>.har) */
+  path?: string;
+}
+
+export interface HarStopResponse {
+  path: string;
+  entries: number;
+  /** Recording duration in ms */
+  duration: number;
+}
+
+/** Accessibility audit checks, run on the snapshot's role/name engine */
+export type A11yRule =
+  | "empty-name" // button/link/menuitem/tab without an accessible name
+  | "missing-label" // form control without a label
+  | "placeholder-label" // form control labelled only by its placeholder
+  | "img-alt" // image without alt (or role=img without a name)
+  | "heading-order" // heading level skipped (h2 → h4)
+  | "no-pointer-events" // visible interactive element with pointer-events: none
+  | "duplicate-id" // aria-* / label[for] reference to an id used more than once
+  | "missing-id-ref"; // aria-* / label[for] reference to an id that doesn't exist
+
+export interface A11yAuditRequest {
+  /** Only run these checks (default: all) */
+  rules?: A11yRule[];
+}
+
+export interface A11yFinding {
+  rule: A11yRule;
+  severity: "error" | "warning";
+  message: string;
+  /** Snapshot ref, when the element is visible (pointer-events: none elements get one too) */
+  ref: string | null;
+  selector: string;
+  role?: string;
+  name?: string;
+  /** Opening tag of the element */
+  html: string;
+}
+
+export interface A11yAuditResponse {
+  url: string;
+  findings: A11yFinding[];
+  errors: number;
+  warnings: number;
+}
+
+export type ContrastLevel = "AA" | "AAA";
+
+export interface ContrastRequest {
+  /** WCAG level to report failures for (default: AA) */
+  level?: ContrastLevel;
+  /** Include passing text too (default: only failures and unknowns) */
+  all?: boolean;
+}
+
+export interface ContrastResult {
+  /** Text of the element (first 80 characters) */
+  text: string;
+  /** Snapshot ref of the element or its nearest ref'd ancestor */
+  ref: string | null;
+  selector: string;
+  /** Effective text color (opacity applied) */
+  color: string;
+  /** Composited background, null when a background image makes it unknown */
+  background: string | null;
+  ratio: number | null;
+  fontSize: number;
+  fontWeight: number;
+  /** WCAG large text (24px, or 18.66px bold) - lower ratios required */
+  large: boolean;
+  aa: "pass" | "fail" | "unknown";
+  aaa: "pass" | "fail" | "unknown";
+  /** Why the result is unknown */
+  reason?: string;
+}
+
+export interface ContrastResponse {
+  url: string;
+  level: ContrastLevel;
+  /** Text elements checked */
+  checked: number;
+  passed: number;
+  failed: number;
+  unknown: number;
+  results: ContrastResult[];
+}
+
+export interface CoverageStartRequest {
+  /** Collect JS coverage from the V8 profiler (default: true) */
+  js?: boolean;
+  /** Collect CSS rule usage (default: true) */
+  css?: boolean;
+}
+
+export interface CoverageStartResponse {
+  success: true;
+  startedAt: string;
+  js: boolean;
+  css: boolean;
+}
+
+export interface CoverageStopRequest {
+  /** Also write a report file */
+  report?: "json" | "html";
+  /** Report path (default: <tmp>/<project>/coverage/<name>-<timestamp>.<json|html>) */
+  path?: string;
+}
+
+/** Character offsets into the file's source, end exclusive */
+export interface CoverageRange {
+  start: number;
+  end: number;
+}
+
+export interface CoverageFile {
+  url: string;
+  type: "js" | "css";
+  totalBytes: number;
+  usedBytes: number;
+  unusedBytes: number;
+  usedPercent: number;
+  unusedRanges: CoverageRange[];
+}
+
+export interface CoverageTotals {
+  totalBytes: number;
+  usedBytes: number;
+  unusedBytes: number;
+  usedPercent: number;
+}
+
+export interface CoverageReport {
+  startedAt: string;
+  /** Collection time in ms */
+  duration: number;
+  /** Pages visited while collecting, in order */
+  urls: string[];
+  js: CoverageTotals;
+  css: CoverageTotals;
+  /** Files seen while collecting (a file loaded on several pages is merged) */
+  files: CoverageFile[];
+  /** Written report file (with the report option) */
+  report?: string;
+}
+
+export interface ScreencastStartRequest {
+  /** Output frames per second, 1-30 (default: 10) */
+  fps?: number;
+  /** Stop capturing automatically after this many ms (default: 300000) */
+  maxDuration?: number;
+  /** JPEG quality of captured frames, 1-100 (default: 70) */
+  quality?: number;
+  /** Downscale frames to fit (default: viewport size) */
+  maxWidth?: number;
+  maxHeight?: number;
+}
+
+export interface ScreencastStartResponse {
+  success: true;
+  startedAt: string;
+  fps: number;
+}
+
+export interface ScreencastStopRequest {
+  /** Output .webm path (default: <tmp>/<project>/videos/<name>-<timestamp>.webm) */
+  path?: string;
+}
+
+export interface ScreencastStopResponse {
+  /** WebM file, or a frame directory with index.html when ffmpeg is unavailable */
+  path: string;
+  format: "webm" | "frames";
+  frames: number;
+  fps: number;
+  /** Recorded time in ms */
+  duration: number;
+  stoppedBy: "request" | "maxDuration" | "page-closed" | "shutdown";
+}
+
+export interface TraceStartRequest {
+  /** Trace title in the viewer (default: page name) */
+  title?: string;
+  /** Screencast frames (default: true) */
+  screenshots?: boolean;
+  /** DOM snapshots around every action (default: true) */
+  snapshots?: boolean;
+  /** Source files of the actions (default: true) */
+  sources?: boolean;
+}
+
+export interface TraceStartResponse {
+  success: true;
+  startedAt: string;
+}
+
+export interface TraceStopRequest {
+  /** Where to write the zip (default: <tmp>/<project>/traces/<name>-<timestamp>.zip) */
+  path?: string;
+  /** Drop the recording without writing a file */
+  discard?: boolean;
+}
+
+export interface TraceStopResponse {
+  /** Written zip (null when discarded) */
+  path: string | null;
+  bytes: number;
+  /** Recording duration in ms */
+  duration: number;
+}
+
+/** Header overrides - a null value removes the header */
+export type HeaderOverrides = Record<string, string | null>;
+
+/** Request interception rule for POST /pages/:name/routes */
+export interface RouteRuleInput {
+  /** URL glob (Playwright page.route syntax), e.g. "**\/api/users*" */
+  url: string;
+  /** fulfill: respond without hitting the network, abort: fail the request, continue: pass through */
+  action: "fulfill" | "abort" | "continue";
+  /** Delay in ms before the action is applied (latency injection) */
+  delay?: number;
+  /** fulfill: status code (default: 200) */
+  status?: number;
+  /** fulfill: JSON body (sets content-type: application/json) */
+  json?: unknown;
+  /** fulfill: raw text body */
+  body?: string;
+  /** fulfill: serve this file from disk (re-read on every hit) */
+  file?: string;
+  /** fulfill: content type for body/file */
+  contentType?: string;
+  /** fulfill: response headers, continue: request header overrides */
+  headers?: HeaderOverrides;
+  /** continue: override headers on the real response */
+  responseHeaders?: HeaderOverrides;
+  /** abort: Playwright error code (default: "failed"), e.g. "blockedbyclient" */
+  errorCode?: string;
+}
+
+export interface RouteRule extends RouteRuleInput {
+  id: string;
+  /** Number of requests this rule has handled */
+  hits: number;
+  createdAt: string;
+}
+
+export interface RoutesResponse {
+  name: string;
+  /** Newest first - the first matching rule handles the request */
+  rules: RouteRule[];
+}
+
+/** Local file override for POST /pages/:name/overrides (or POST /overrides?context= for a whole context) */
+export interface FileOverrideInput {
+  /** URL glob to replace, e.g. "**\/themes/mytheme/style.css*" */
+  url: string;
+  /** Absolute path of the local file to serve instead (content type inferred from extension) */
+  file: string;
+  /** Reload the page(s) when the file changes (default: false) */
+  watch?: boolean;
+}
+
+export interface FileOverride extends FileOverrideInput {
+  id: string;
+  /** Number of requests served from the local file */
+  hits: number;
+  /** Reloads triggered by file changes */
+  reloads: number;
+}
+
+export interface OverridesResponse {
+  /** Page name, or "*<context>" (e.g. "*default") for context-wide overrides */
+  name: string;
+  overrides: FileOverride[];
+}
+
+/** Cookie as stored by Playwright's storageState (expires: unix seconds, -1 = session) */
+export interface SavedCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: "Strict" | "Lax" | "None";
+}
+
+export interface SavedStateOrigin {
+  origin: string;
+  localStorage: Array<{ name: string; value: string }>;
+  sessionStorage: Array<{ name: string; value: string }>;
+}
+
+/** Saved auth state file written by POST /contexts/:name/state/export */
+export interface SavedState {
+  version: 1;
+  savedAt: string;
+  cookies: SavedCookie[];
+  origins: SavedStateOrigin[];
+}
+
+export interface StateFileRequest {
+  /** Saved state name (stored in the server's states dir) */
+  name?: string;
+  /** Absolute path instead of a name */
+  path?: string;
+}
+
+export interface StateExportRequest extends StateFileRequest {
+  /** Only save cookies/storage for this origin, e.g. "https://site.local" */
+  origin?: string;
+}
+
+export interface StateResponse {
+  path: string;
+  cookies: number;
+  origins: number;
+  savedAt: string;
+}
+
+/** Device descriptor summary from Playwright's device registry (GET /devices) */
+export interface DeviceInfo {
+  name: string;
+  userAgent: string;
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+}
+
+export interface EmulateRequest {
+  /** Device name from GET /devices, e.g. "iPhone 13" (case-insensitive) */
+  device: string;
+  /** Reload so UA-based server rendering and meta viewport apply (default: true) */
+  reload?: boolean;
+}
+
+export interface EmulateResponse {
+  device: DeviceInfo | null;
+  url: string;
+}
+
+export type ThrottlePreset = "slow-3g" | "fast-3g" | "4g" | "offline";
+
+/** Body for POST /pages/:name/throttle - a preset and/or explicit values (explicit values win) */
+export interface ThrottleRequest {
+  preset?: ThrottlePreset;
+  /** Added round-trip latency in ms */
+  latency?: number;
+  /** Download throughput in kbit/s (-1 = unlimited) */
+  downloadKbps?: number;
+  /** Upload throughput in kbit/s (-1 = unlimited) */
+  uploadKbps?: number;
+  offline?: boolean;
+  /** CPU slowdown factor (1 = none, 4 = mid-tier mobile, 6 = low-end mobile) */
+  cpu?: number;
+}
+
+export interface ThrottleConditions {
+  latency: number;
+  downloadKbps: number;
+  uploadKbps: number;
+  offline: boolean;
+  cpu: number;
+}
+
+export interface ThrottleResponse {
+  name: string;
+  /** null when not throttled */
+  conditions: ThrottleConditions | null;
+}
+
+/** Body for POST /pages/:name/vitals - navigate with performance hooks installed, then collect */
+export interface VitalsRequest {
+  /** URL to load (default: reload the current page) */
+  url?: string;
+  /** Extra wait after load so late LCP candidates and layout shifts are counted (default: 3000 ms) */
+  settle?: number;
+}
+
+export interface VitalsResourceTotals {
+  count: number;
+  /** Bytes over the wire (0 for cross-origin resources without Timing-Allow-Origin) */
+  transferBytes: number;
+}
+
+/** Core Web Vitals and load metrics - times in ms, null when the browser reported nothing */
+export interface VitalsReport {
+  url: string;
+  lcp: number | null;
+  /** Element that produced the LCP candidate, e.g. "img.hero" */
+  lcpElement: string | null;
+  cls: number;
+  /** Slowest interaction (98th percentile past 50 interactions); null before any input */
+  inp: number | null;
+  fcp: number | null;
+  ttfb: number | null;
+  navigation: {
+    type: string;
+    domInteractive: number;
+    domContentLoaded: number;
+    load: number;
+    transferBytes: number;
+  } | null;
+  /** null when hooks were not installed before the page loaded (GET on a page loaded elsewhere) */
+  longTasks: { count: number; totalBlockingTime: number; longest: number } | null;
+  resources: {
+    byType: Record<string, VitalsResourceTotals>;
+    total: VitalsResourceTotals;
+  };
+  collectedAt: string;
+}
+
+export type DialogType = "alert" | "confirm" | "prompt" | "beforeunload";
+
+/**
+ * How a page answers alert/confirm/prompt/beforeunload dialogs.
+ * "queue" leaves the dialog open (the page stays blocked) until
+ * POST /pages/:name/dialogs/:id answers it.
+ */
+export interface DialogPolicy {
+  action: "accept" | "dismiss" | "queue";
+  /** Text entered into prompt() dialogs when accepting (default: the prompt's default value) */
+  promptText?: string;
+}
+
+export interface DialogRecord {
+  id: number;
+  type: DialogType;
+  message: string;
+  /** prompt() default value */
+  defaultValue?: string;
+  url: string;
+  timestamp: string;
+  handled: "accepted" | "dismissed" | "pending";
+  /** "policy" when answered automatically, "manual" via POST /pages/:name/dialogs/:id */
+  by?: "policy" | "manual";
+  promptText?: string;
+}
+
+export interface DialogsResponse {
+  name: string;
+  policy: DialogPolicy;
+  /** Most recent dialogs, oldest first */
+  dialogs: DialogRecord[];
+}
+
+/** Body for POST /pages/:name/dialogs/:id - answer a queued dialog */
+export interface DialogResponseRequest {
+  action: "accept" | "dismiss";
+  promptText?: string;
+}
+
+/** File downloaded by a registry page, saved under <tmpDir>/<project>/downloads */
+export interface DownloadRecord {
+  /** Increasing per server - pass as `after` to wait for the next one */
+  id: number;
+  page: string;
+  url: string;
+  suggestedFilename: string;
+  /** Absolute path of the saved file (set once complete) */
+  path?: string;
+  /** Size in bytes (set once complete) */
+  size?: number;
+  status: "saving" | "complete" | "failed";
+  error?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+export interface DownloadsResponse {
+  downloads: DownloadRecord[];
+}
+
+/** Body for POST /pages/:name/pdf - options map onto Playwright's page.pdf */
+export interface PdfRequest {
+  /** Absolute output path (default: <tmpDir>/<project>/pdfs/<page>-<timestamp>.pdf) */
+  path?: string;
+  /** Paper format, e.g. "A4", "Letter" (default: Letter, ignored when width/height are set) */
+  format?: string;
+  /** Paper width/height with units, e.g. "210mm" */
+  width?: string;
+  height?: string;
+  landscape?: boolean;
+  /** CSS lengths, e.g. { top: "1cm", bottom: "1cm" } */
+  margin?: { top?: string; right?: string; bottom?: string; left?: string };
+  /** Print background colors and images (default: true) */
+  printBackground?: boolean;
+  /** HTML templates - classes date, title, url, pageNumber, totalPages are filled in */
+  headerTemplate?: string;
+  footerTemplate?: string;
+  /** e.g. "1-3, 5" (default: all pages) */
+  pageRanges?: string;
+  scale?: number;
+  /** Prefer page-defined @page size over format (default: false) */
+  preferCSSPageSize?: boolean;
+  /** Media type to render with (default: "print" - checks print stylesheets) */
+  media?: "print" | "screen";
+}
+
+export interface PdfResponse {
+  path: string;
+  bytes: number;
+  url: string;
+  /** "page" = printed directly, "headless" = temporary headless copy of the page (headed browser) */
+  via: "page" | "headless";
+}
+
+/** Body for POST /pages/:name/screenshot - whole page, one element or a region */
+export interface ScreenshotRequest {
+  /** Output path (default: <tmpDir>/<project>/screenshots/<page>-<timestamp>.<ext>); ignored with base64 */
+  path?: string;
+  /** Capture the full scrollable page instead of the viewport (default: true) */
+  fullPage?: boolean;
+  /** CSS selector of the element to capture */
+  selector?: string;
+  /** Snapshot ref (e.g. "e12") of the element to capture */
+  ref?: string;
+  /** Region in document (CSS pixel) coordinates */
+  clip?: { x: number; y: number; width: number; height: number };
+  /** Extra CSS pixels around the element or clip (default: 0) */
+  padding?: number;
+  format?: "png" | "jpeg" | "webp";
+  /** 0-100 for jpeg/webp (default: 80) */
+  quality?: number;
+  /** Downscale (keeping aspect ratio) so the image fits within these pixel sizes */
+  maxWidth?: number;
+  maxHeight?: number;
+  /** Return the image as base64 in the response instead of writing a file */
+  base64?: boolean;
+  /** Deterministic capture: freeze animations/transitions, hide the caret, wait for web fonts */
+  stable?: boolean;
+  /** Selectors or snapshot refs to cover with solid boxes (timestamps, ads, carousels) */
+  mask?: string[];
+  /** Mask box color (default: #FF00FF) */
+  maskColor?: string;
+}
+
+export interface ScreenshotResponse {
+  success: true;
+  /** Saved file (omitted with base64) */
+  path?: string;
+  /** Image data (only with base64: true) */
+  base64?: string;
+  mimeType: string;
+  /** Final image size in pixels */
+  width: number;
+  height: number;
+  /** True when the image was downscaled to fit maxWidth/maxHeight */
+  resized: boolean;
+  url: string;
+  viewport: string;
+}
@@ -0,0 +1,139 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, test, expect } from "vitest";
+import {
+  compareImages,
+  compareToBaseline,
+  decodePng,
+  encodePng,
+  listBaselines,
+  saveBaseline,
+  type RgbaImage,
+} from "../index";
+
+function solid(width: number, height: number, rgb: [number, number, number]): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([...rgb, 255], i * 4);
+  }
+  return { width, height, data };
+}
+
+function fillRect(
+  img: RgbaImage,
+  x0: number,
+  y0: number,
+  w: number,
+  h: number,
+  rgb: [number, number, number]
+): void {
+  for (let y = y0; y < y0 + h; y++) {
+    for (let x = x0; x < x0 + w; x++) {
+      img.data.set([...rgb, 255], (y * img.width + x) * 4);
+    }
+  }
+}
+
+describe("png codec", () => {
+  test("round-trips RGBA pixels", () => {
+    const img = solid(7, 5, [10, 200, 30]);
+    fillRect(img, 2, 1, 3, 2, [255, 0, 128]);
+    img.data[3] = 64;
+
+    const decoded = decodePng(encodePng(img));
+
+    expect(decoded.width).toBe(7);
+    expect(decoded.height).toBe(5);
+    expect(Array.from(decoded.data)).toEqual(Array.from(img.data));
+  });
+
+  test("rejects non-PNG data", () => {
+    expect(() => decodePng(Buffer.from("not an image"))).toThrow("Not a PNG image");
+  });
+});
+
+describe("compareImages", () => {
+  test("identical images have no differences", () => {
+    const result = compareImages(solid(20, 20, [255, 255, 255]), solid(20, 20, [255, 255, 255]));
+
+    expect(result.diffPixels).toBe(0);
+    expect(result.diffPercent).toBe(0);
+    expect(result.regions).toEqual([]);
+  });
+
+  test("reports changed pixels and their region", () => {
+    const expected = solid(64, 64, [255, 255, 255]);
+    const actual = solid(64, 64, [255, 255, 255]);
+    fillRect(actual, 40, 8, 10, 6, [0, 0, 0]);
+
+    const result = compareImages(expected, actual);
+
+    expect(result.diffPixels).toBe(60);
+    expect(result.regions).toHaveLength(1);
+    const [region] = result.regions;
+    expect(region!.pixels).toBe(60);
+    expect(region!.x).toBeLessThanOrEqual(40);
+    expect(region!.x + region!.width).toBeGreaterThanOrEqual(50);
+  });
+
+  test("ignores color changes below the threshold", () => {
+    const expected = solid(10, 10, [200, 200, 200]);
+    const actual = solid(10, 10, [203, 203, 203]);
+
+    expect(compareImages(expected, actual).diffPixels).toBe(0);
+    expect(compareImages(expected, actual, { threshold: 0 }).diffPixels).toBe(100);
+  });
+
+  test("counts area outside the smaller image as changed", () => {
+    const result = compareImages(solid(10, 10, [0, 0, 0]), solid(10, 12, [0, 0, 0]));
+
+    expect(result.sizeMismatch).toBe(true);
+    expect(result.height).toBe(12);
+    expect(result.diffPixels).toBe(20);
+  });
+});
+
+describe("baselines", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "dev-browser-baselines-"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("stores baselines per project, page and viewport", () => {
+    const png = encodePng(solid(4, 4, [255, 255, 255]));
+    saveBaseline(root, { project: "shop", page: "main", viewport: "1280x800" }, png);
+    saveBaseline(root, { project: "shop", page: "main", viewport: "375x812", name: "cart" }, png);
+    saveBaseline(root, { project: "blog", page: "main", viewport: "1280x800" }, png);
+
+    const shop = listBaselines(root, "shop").map((b) => `${b.page}/${b.viewport}/${b.name}`);
+    expect(shop.sort()).toEqual(["main/1280x800/default", "main/375x812/cart"]);
+    expect(listBaselines(root)).toHaveLength(3);
+  });
+
+  test("compares against the baseline and writes actual and diff images", () => {
+    const key = { project: "shop", page: "main", viewport: "64x64" };
+    saveBaseline(root, key, encodePng(solid(64, 64, [255, 255, 255])));
+    const changed = solid(64, 64, [255, 255, 255]);
+    fillRect(changed, 0, 0, 8, 8, [0, 0, 255]);
+
+    const report = compareToBaseline(root, key, encodePng(changed), { maxDiffPercent: 1 });
+
+    expect(report.match).toBe(false);
+    expect(report.diffPixels).toBe(64);
+    expect(decodePng(readFileSync(report.diff)).width).toBe(64);
+    expect(listBaselines(root)).toHaveLength(1);
+  });
+
+  test("throws when there is no baseline", () => {
+    const png = encodePng(solid(4, 4, [0, 0, 0]));
+    expect(() =>
+      compareToBaseline(root, { project: "shop", page: "main", viewport: "4x4" }, png)
+    ).toThrow("No baseline");
+  });
+});
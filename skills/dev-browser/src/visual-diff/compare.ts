@@ -0,0 +1,335 @@
+/**
+ * Pixel comparison in the style of pixelmatch: perceptual (YIQ) color distance with a
+ * threshold, anti-aliased edge detection, a diff image and bounding boxes of changed regions.
+ */
+
+import type { RgbaImage } from "./png";
+
+export interface CompareOptions {
+  /** Per-pixel color distance tolerance, 0-1 (default: 0.1) */
+  threshold?: number;
+  /** Count anti-aliased pixels as differences (default: false) */
+  includeAntialiasing?: boolean;
+}
+
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Changed pixels inside the region */
+  pixels: number;
+}
+
+export interface CompareResult {
+  width: number;
+  height: number;
+  /** Pixels that differ beyond the threshold (including area outside the other image) */
+  diffPixels: number;
+  /** Differing pixels ignored as anti-aliasing */
+  antialiasedPixels: number;
+  totalPixels: number;
+  /** diffPixels / totalPixels * 100 */
+  diffPercent: number;
+  sizeMismatch: boolean;
+  /** Changed areas, largest first */
+  regions: DiffRegion[];
+  /** Faded expected image with changes in red, anti-aliasing in yellow, regions outlined */
+  diff: RgbaImage;
+}
+
+// Max YIQ delta between two colors (black vs white)
+const MAX_YIQ_DELTA = 35215;
+
+// Grid cell used to group changed pixels into regions
+const REGION_CELL = 16;
+const MAX_REGIONS = 50;
+
+const DIFF_COLOR = [255, 0, 0] as const;
+const AA_COLOR = [255, 255, 0] as const;
+const REGION_COLOR = [255, 0, 255] as const;
+
+const rgb2y = (r: number, g: number, b: number) => r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+const rgb2i = (r: number, g: number, b: number) => r * 0.59597799 - g * 0.2741761 - b * 0.32180189;
+const rgb2q = (r: number, g: number, b: number) => r * 0.21147017 - g * 0.52261711 + b * 0.31114694;
+
+// Blend a channel with white by alpha (0-1)
+const blend = (c: number, a: number) => 255 + (c - 255) * a;
+
+function setPixel(data: Uint8Array, o: number, [r, g, b]: readonly number[]): void {
+  data[o] = r!;
+  data[o + 1] = g!;
+  data[o + 2] = b!;
+  data[o + 3] = 255;
+}
+
+/**
+ * Squared YIQ distance between pixel k of a and pixel m of b, signed by which is brighter.
+ * yOnly returns just the brightness difference (used for anti-alias detection).
+ */
+function colorDelta(a: Uint8Array, b: Uint8Array, k: number, m: number, yOnly: boolean): number {
+  let r1 = a[k]!;
+  let g1 = a[k + 1]!;
+  let b1 = a[k + 2]!;
+  const a1 = a[k + 3]!;
+  let r2 = b[m]!;
+  let g2 = b[m + 1]!;
+  let b2 = b[m + 2]!;
+  const a2 = b[m + 3]!;
+
+  if (r1 === r2 && g1 === g2 && b1 === b2 && a1 === a2) return 0;
+
+  if (a1 < 255) {
+    r1 = blend(r1, a1 / 255);
+    g1 = blend(g1, a1 / 255);
+    b1 = blend(b1, a1 / 255);
+  }
+  if (a2 < 255) {
+    r2 = blend(r2, a2 / 255);
+    g2 = blend(g2, a2 / 255);
+    b2 = blend(b2, a2 / 255);
+  }
+
+  const y1 = rgb2y(r1, g1, b1);
+  const y2 = rgb2y(r2, g2, b2);
+  const y = y1 - y2;
+  if (yOnly) return y;
+
+  const i = rgb2i(r1, g1, b1) - rgb2i(r2, g2, b2);
+  const q = rgb2q(r1, g1, b1) - rgb2q(r2, g2, b2);
+  const delta = 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+  return y1 > y2 ? -delta : delta;
+}
+
+// True when the pixel has 3+ identical neighbours (part of a flat area, not an edge)
+function hasManySiblings(img: RgbaImage, x1: number, y1: number, w: number, h: number): boolean {
+  const x0 = Math.max(x1 - 1, 0);
+  const y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, w - 1);
+  const y2 = Math.min(y1 + 1, h - 1);
+  const pos = (y1 * img.width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) continue;
+      const pos2 = (y * img.width + x) * 4;
+      if (
+        img.data[pos] === img.data[pos2] &&
+        img.data[pos + 1] === img.data[pos2 + 1] &&
+        img.data[pos + 2] === img.data[pos2 + 2] &&
+        img.data[pos + 3] === img.data[pos2 + 3]
+      ) {
+        zeroes++;
+      }
+      if (zeroes > 2) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether pixel (x1, y1) of img looks like anti-aliasing: it sits between a darker and a
+ * brighter neighbour, and one of those belongs to a flat area in both images.
+ */
+function antialiased(
+  img: RgbaImage,
+  other: RgbaImage,
+  x1: number,
+  y1: number,
+  w: number,
+  h: number
+): boolean {
+  const x0 = Math.max(x1 - 1, 0);
+  const y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, w - 1);
+  const y2 = Math.min(y1 + 1, h - 1);
+  const pos = (y1 * img.width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+  let min = 0;
+  let max = 0;
+  let minX = 0;
+  let minY = 0;
+  let maxX = 0;
+  let maxY = 0;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) continue;
+      const delta = colorDelta(img.data, img.data, pos, (y * img.width + x) * 4, true);
+      if (delta === 0) {
+        zeroes++;
+        if (zeroes > 2) return false;
+      } else if (delta < min) {
+        min = delta;
+        minX = x;
+        minY = y;
+      } else if (delta > max) {
+        max = delta;
+        maxX = x;
+        maxY = y;
+      }
+    }
+  }
+
+  if (min === 0 || max === 0) return false;
+  return (
+    (hasManySiblings(img, minX, minY, w, h) && hasManySiblings(other, minX, minY, w, h)) ||
+    (hasManySiblings(img, maxX, maxY, w, h) && hasManySiblings(other, maxX, maxY, w, h))
+  );
+}
+
+// Group changed pixels into bounding boxes of connected grid cells
+function findRegions(mask: Uint8Array, width: number, height: number): DiffRegion[] {
+  const cols = Math.ceil(width / REGION_CELL);
+  const rows = Math.ceil(height / REGION_CELL);
+  const cells = new Uint32Array(cols * rows);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) {
+        cells[Math.floor(y / REGION_CELL) * cols + Math.floor(x / REGION_CELL)]!++;
+      }
+    }
+  }
+
+  const seen = new Uint8Array(cols * rows);
+  const regions: DiffRegion[] = [];
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || seen[start]) continue;
+    let minCol = cols;
+    let minRow = rows;
+    let maxCol = 0;
+    let maxRow = 0;
+    let pixels = 0;
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length) {
+      const cell = stack.pop()!;
+      const col = cell % cols;
+      const row = Math.floor(cell / cols);
+      pixels += cells[cell]!;
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = col + dx;
+          const r = row + dy;
+          if (c < 0 || r < 0 || c >= cols || r >= rows) continue;
+          const next = r * cols + c;
+          if (cells[next] && !seen[next]) {
+            seen[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+    const x = minCol * REGION_CELL;
+    const y = minRow * REGION_CELL;
+    regions.push({
+      x,
+      y,
+      width: Math.min((maxCol + 1) * REGION_CELL, width) - x,
+      height: Math.min((maxRow + 1) * REGION_CELL, height) - y,
+      pixels,
+    });
+  }
+
+  return regions.sort((a, b) => b.pixels - a.pixels).slice(0, MAX_REGIONS);
+}
+
+function outline(img: RgbaImage, region: DiffRegion): void {
+  const paint = (x: number, y: number) => {
+    if (x < 0 || y < 0 || x >= img.width || y >= img.height) return;
+    setPixel(img.data, (y * img.width + x) * 4, REGION_COLOR);
+  };
+  const x0 = region.x - 2;
+  const y0 = region.y - 2;
+  const x1 = region.x + region.width + 1;
+  const y1 = region.y + region.height + 1;
+  for (let x = x0; x <= x1; x++) {
+    paint(x, y0);
+    paint(x, y1);
+  }
+  for (let y = y0; y <= y1; y++) {
+    paint(x0, y);
+    paint(x1, y);
+  }
+}
+
+/**
+ * Compare two images. Images of different sizes are compared over their overlap,
+ * and the area covered by only one of them counts as changed.
+ */
+export function compareImages(
+  expected: RgbaImage,
+  actual: RgbaImage,
+  options: CompareOptions = {}
+): CompareResult {
+  const threshold = options.threshold ?? 0.1;
+  const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+
+  const width = Math.max(expected.width, actual.width);
+  const height = Math.max(expected.height, actual.height);
+  const overlapW = Math.min(expected.width, actual.width);
+  const overlapH = Math.min(expected.height, actual.height);
+
+  const diff: RgbaImage = { width, height, data: new Uint8Array(width * height * 4) };
+  const mask = new Uint8Array(width * height);
+  let diffPixels = 0;
+  let antialiasedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+
+      if (x >= overlapW || y >= overlapH) {
+        setPixel(diff.data, o, DIFF_COLOR);
+        mask[y * width + x] = 1;
+        diffPixels++;
+        continue;
+      }
+
+      const posE = (y * expected.width + x) * 4;
+      const posA = (y * actual.width + x) * 4;
+      const delta = colorDelta(expected.data, actual.data, posE, posA, false);
+
+      if (Math.abs(delta) > maxDelta) {
+        const isAntialiased =
+          !options.includeAntialiasing &&
+          (antialiased(expected, actual, x, y, overlapW, overlapH) ||
+            antialiased(actual, expected, x, y, overlapW, overlapH));
+        if (isAntialiased) {
+          setPixel(diff.data, o, AA_COLOR);
+          antialiasedPixels++;
+        } else {
+          setPixel(diff.data, o, DIFF_COLOR);
+          mask[y * width + x] = 1;
+          diffPixels++;
+        }
+      } else {
+        // Unchanged: faded grayscale of the expected image for context
+        const d = expected.data;
+        const gray = blend(rgb2y(d[posE]!, d[posE + 1]!, d[posE + 2]!), (0.1 * d[posE + 3]!) / 255);
+        setPixel(diff.data, o, [gray, gray, gray]);
+      }
+    }
+  }
+
+  const regions = findRegions(mask, width, height);
+  for (const region of regions) outline(diff, region);
+
+  const totalPixels = width * height;
+  return {
+    width,
+    height,
+    diffPixels,
+    antialiasedPixels,
+    totalPixels,
+    diffPercent: totalPixels ? Math.round((diffPixels / totalPixels) * 100 * 1000) / 1000 : 0,
+    sizeMismatch: expected.width !== actual.width || expected.height !== actual.height,
+    regions,
+    diff,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Visual regression module for dev-browser.
+ *
+ * Baselines are PNG files stored per project, page and viewport:
+ *   <root>/<project>/<page>/<viewport>/<name>.png
+ * A comparison writes <name>.actual.png and <name>.diff.png next to the baseline
+ * and returns a JSON-friendly summary.
+ *
+ * Usage:
+ *   import { saveBaseline, compareToBaseline } from './visual-diff';
+ *   const key = { project: 'dev', page: 'main', viewport: '1280x800' };
+ *   saveBaseline(root, key, png);
+ *   const report = compareToBaseline(root, key, png, { threshold: 0.1, maxDiffPercent: 0.5 });
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { compareImages, type CompareOptions, type DiffRegion } from "./compare";
+import { decodePng, encodePng } from "./png";
+
+export { compareImages, type CompareOptions, type CompareResult, type DiffRegion } from "./compare";
+export { decodePng, encodePng, type RgbaImage } from "./png";
+
+export interface BaselineKey {
+  project: string;
+  page: string;
+  /** Viewport as WIDTHxHEIGHT */
+  viewport: string;
+  /** Several baselines per page/viewport (default: "default") */
+  name?: string;
+}
+
+export interface BaselineInfo extends Required<BaselineKey> {
+  path: string;
+  bytes: number;
+  updatedAt: string;
+}
+
+export interface VisualDiffOptions extends CompareOptions {
+  /** Highest diffPercent that still counts as a match (default: 0) */
+  maxDiffPercent?: number;
+}
+
+export interface VisualDiffReport extends Required<BaselineKey> {
+  match: boolean;
+  baseline: string;
+  actual: string;
+  diff: string;
+  width: number;
+  height: number;
+  diffPixels: number;
+  diffPercent: number;
+  antialiasedPixels: number;
+  sizeMismatch: boolean;
+  regions: DiffRegion[];
+  threshold: number;
+  maxDiffPercent: number;
+}
+
+/** Baseline root: $DEV_BROWSER_BASELINES, else $DEV_BROWSER_HOME/baselines */
+export function defaultBaselinesDir(): string {
+  const home = process.env.DEV_BROWSER_HOME || join(homedir(), ".dev-browser");
+  return process.env.DEV_BROWSER_BASELINES || join(home, "baselines");
+}
+
+// Page names like "dev-main~popup1" or "https://..." must stay one path segment
+const segment = (value: string) => value.replace(/[^\w.@~-]+/g, "_") || "_";
+
+export function baselinePath(root: string, key: BaselineKey): string {
+  return join(
+    root,
+    segment(key.project),
+    segment(key.page),
+    segment(key.viewport),
+    `${segment(key.name ?? "default")}.png`
+  );
+}
+
+export function hasBaseline(root: string, key: BaselineKey): boolean {
+  return existsSync(baselinePath(root, key));
+}
+
+/** Store a PNG screenshot as the baseline (replacing any previous one) */
+export function saveBaseline(root: string, key: BaselineKey, png: Buffer): string {
+  // Decoding up front rejects anything the comparison couldn't read later
+  decodePng(png);
+  const path = baselinePath(root, key);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, png);
+  return path;
+}
+
+/** Baselines under root, optionally limited to one project */
+export function listBaselines(root: string, project?: string): BaselineInfo[] {
+  const dirs = (path: string) =>
+    existsSync(path)
+      ? readdirSync(path, { withFileTypes: true })
+          .filter((e) => e.isDirectory())
+          .map((e) => e.name)
+      : [];
+
+  const baselines: BaselineInfo[] = [];
+  const projects = project ? [segment(project)] : dirs(root);
+  for (const proj of projects) {
+    for (const page of dirs(join(root, proj))) {
+      for (const viewport of dirs(join(root, proj, page))) {
+        const dir = join(root, proj, page, viewport);
+        for (const file of readdirSync(dir)) {
+          if (!file.endsWith(".png") || /\.(actual|diff)\.png$/.test(file)) continue;
+          const path = join(dir, file);
+          const stat = statSync(path);
+          baselines.push({
+            project: proj,
+            page,
+            viewport,
+            name: file.slice(0, -".png".length),
+            path,
+            bytes: stat.size,
+            updatedAt: stat.mtime.toISOString(),
+          });
+        }
+      }
+    }
+  }
+  return baselines;
+}
+
+/**
+ * Compare a PNG screenshot to its baseline. Writes the actual and diff images next to
+ * the baseline; throws when no baseline exists.
+ */
+export function compareToBaseline(
+  root: string,
+  key: BaselineKey,
+  png: Buffer,
+  options: VisualDiffOptions = {}
+): VisualDiffReport {
+  const baseline = baselinePath(root, key);
+  if (!existsSync(baseline)) {
+    throw new Error(`No baseline for ${key.page} at ${key.viewport} (expected ${baseline})`);
+  }
+
+  const threshold = options.threshold ?? 0.1;
+  const maxDiffPercent = options.maxDiffPercent ?? 0;
+  const result = compareImages(decodePng(readFileSync(baseline)), decodePng(png), {
+    threshold,
+    includeAntialiasing: options.includeAntialiasing,
+  });
+
+  const stem = baseline.slice(0, -".png".length);
+  const actual = `${stem}.actual.png`;
+  const diff = `${stem}.diff.png`;
+  writeFileSync(actual, png);
+  writeFileSync(diff, encodePng(result.diff));
+
+  return {
+    project: key.project,
+    page: key.page,
+    viewport: key.viewport,
+    name: key.name ?? "default",
+    match: result.diffPercent <= maxDiffPercent,
+    baseline,
+    actual,
+    diff,
+    width: result.width,
+    height: result.height,
+    diffPixels: result.diffPixels,
+    diffPercent: result.diffPercent,
+    antialiasedPixels: result.antialiasedPixels,
+    sizeMismatch: result.sizeMismatch,
+    regions: result.regions,
+    threshold,
+    maxDiffPercent,
+  };
+}
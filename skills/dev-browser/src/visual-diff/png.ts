@@ -0,0 +1,192 @@
+/**
+ * Minimal PNG codec on top of zlib - enough for browser screenshots and diff images,
+ * so visual diffs need no native image dependencies.
+ *
+ * Decodes non-interlaced grayscale/RGB/palette/RGBA PNGs (8 or 16 bit) to 8-bit RGBA,
+ * encodes 8-bit RGBA.
+ */
+
+import { deflateSync, inflateSync } from "zlib";
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  /** width * height * 4 bytes, row-major RGBA */
+  data: Uint8Array;
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Samples per pixel for each PNG color type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]!) & 0xff]! ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// Reverse the per-row filters - returns the scanlines without their filter bytes
+function unfilter(data: Buffer, height: number, stride: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)]!;
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prev = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = data[src + x]!;
+      const a = x >= bpp ? out[row + x - bpp]! : 0;
+      const b = y > 0 ? out[prev + x]! : 0;
+      const c = x >= bpp && y > 0 ? out[prev + x - bpp]! : 0;
+      let value: number;
+      switch (filter) {
+        case 0:
+          value = raw;
+          break;
+        case 1:
+          value = raw + a;
+          break;
+        case 2:
+          value = raw + b;
+          break;
+        case 3:
+          value = raw + ((a + b) >> 1);
+          break;
+        case 4:
+          value = raw + paeth(a, b, c);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+      out[row + x] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+export function decodePng(buf: Buffer): RgbaImage {
+  if (buf.length < 8 || !buf.subarray(0, 8).equals(SIGNATURE)) {
+    throw new Error("Not a PNG image");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset + 8 <= buf.length; ) {
+    const length = buf.readUInt32BE(offset);
+    const type = buf.toString("ascii", offset + 4, offset + 8);
+    const body = buf.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      bitDepth = body[8]!;
+      colorType = body[9]!;
+      if (body[12] !== 0) throw new Error("Interlaced PNGs are not supported");
+    } else if (type === "PLTE") {
+      palette = body;
+    } else if (type === "tRNS") {
+      transparency = body;
+    } else if (type === "IDAT") {
+      idat.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!channels || !(bitDepth === 8 || (bitDepth === 16 && colorType !== 3))) {
+    throw new Error(`Unsupported PNG format (color type ${colorType}, bit depth ${bitDepth})`);
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const bpp = channels * bytesPerSample;
+  const stride = width * bpp;
+  const pixels = unfilter(inflateSync(Buffer.concat(idat)), height, stride, bpp);
+
+  const data = new Uint8Array(width * height * 4);
+  // 16-bit samples keep their high byte
+  const sample = (i: number, ch: number) => pixels[i * bpp + ch * bytesPerSample]!;
+  for (let i = 0; i < width * height; i++) {
+    const o = i * 4;
+    if (colorType === 3) {
+      const index = pixels[i]!;
+      data[o] = palette?.[index * 3] ?? 0;
+      data[o + 1] = palette?.[index * 3 + 1] ?? 0;
+      data[o + 2] = palette?.[index * 3 + 2] ?? 0;
+      data[o + 3] = transparency?.[index] ?? 255;
+    } else if (channels <= 2) {
+      const gray = sample(i, 0);
+      data[o] = data[o + 1] = data[o + 2] = gray;
+      data[o + 3] = channels === 2 ? sample(i, 1) : 255;
+    } else {
+      data[o] = sample(i, 0);
+      data[o + 1] = sample(i, 1);
+      data[o + 2] = sample(i, 2);
+      data[o + 3] = channels === 4 ? sample(i, 3) : 255;
+    }
+  }
+  return { width, height, data };
+}
+
+function chunk(type: string, body: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(body.length, 0);
+  head.write(type, 4, "ascii");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), body])), 0);
+  return Buffer.concat([head, body, crc]);
+}
+
+export function encodePng(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+
+  // Sub filter on every row - cheap and compresses flat screenshot areas well
+  const stride = width * 4;
+  const raw = Buffer.alloc(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    const out = y * (stride + 1);
+    const row = y * stride;
+    raw[out] = 1;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 4 ? data[row + x - 4]! : 0;
+      raw[out + 1 + x] = (data[row + x]! - left) & 0xff;
+    }
+  }
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk("IHDR", ihdr),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,144 @@
+// Web performance metrics - Core Web Vitals, navigation timing, long tasks, resource totals
+// The observer script runs at document start (addInitScript) so nothing before first paint is missed;
+// injected late it falls back to buffered entries, which covers everything except long tasks
+
+import type { Page } from "playwright";
+import type { VitalsReport } from "./types";
+
+// Time for buffered observer callbacks to be delivered after a late injection
+const BUFFER_FLUSH_MS = 100;
+
+/**
+ * Self-contained observer script. Exposes window.__devBrowser_getVitals()
+ * which returns a VitalsReport (minus collectedAt) for the current document.
+ */
+export const VITALS_SCRIPT = `
+(function() {
+  if (window.__devBrowser_getVitals) return;
+  var early = document.readyState === "loading";
+
+  var state = { lcp: null, lcpElement: null, shifts: [], interactions: {}, longTasks: early ? [] : null };
+
+  function describe(el) {
+    if (!el || !el.tagName) return null;
+    var name = el.tagName.toLowerCase();
+    if (el.id) return name + "#" + el.id;
+    var cls = typeof el.className === "string" ? el.className.trim().split(/\\s+/)[0] : "";
+    return cls ? name + "." + cls : name;
+  }
+
+  function observe(type, options, callback) {
+    try {
+      var observer = new PerformanceObserver(function(list) { list.getEntries().forEach(callback); });
+      options.type = type;
+      options.buffered = true;
+      observer.observe(options);
+    } catch (e) {
+      // Entry type not supported by this browser
+    }
+  }
+
+  observe("largest-contentful-paint", {}, function(entry) {
+    state.lcp = entry.startTime;
+    state.lcpElement = describe(entry.element);
+  });
+  observe("layout-shift", {}, function(entry) {
+    if (!entry.hadRecentInput) state.shifts.push({ time: entry.startTime, value: entry.value });
+  });
+  observe("event", { durationThreshold: 16 }, function(entry) {
+    if (!entry.interactionId) return;
+    var prev = state.interactions[entry.interactionId] || 0;
+    state.interactions[entry.interactionId] = Math.max(prev, entry.duration);
+  });
+  if (early) {
+    observe("longtask", {}, function(entry) { state.longTasks.push(entry.duration); });
+  }
+
+  // CLS = largest session window (shifts < 1s apart, window capped at 5s)
+  function cls() {
+    var max = 0, current = 0, start = 0, last = -Infinity;
+    state.shifts.forEach(function(s) {
+      if (s.time - last > 1000 || s.time - start > 5000) {
+        current = 0;
+        start = s.time;
+      }
+      current += s.value;
+      last = s.time;
+      max = Math.max(max, current);
+    });
+    return max;
+  }
+
+  function inp() {
+    var durations = Object.keys(state.interactions).map(function(k) { return state.interactions[k]; });
+    if (durations.length === 0) return null;
+    durations.sort(function(a, b) { return b - a; });
+    return durations[Math.min(durations.length - 1, Math.floor(durations.length / 50))];
+  }
+
+  function round(n) { return Math.round(n * 10) / 10; }
+
+  window.__devBrowser_getVitals = function() {
+    var nav = performance.getEntriesByType("navigation")[0];
+    var fcp = performance.getEntriesByName("first-contentful-paint")[0];
+
+    var byType = {};
+    var total = { count: 0, transferBytes: 0 };
+    performance.getEntriesByType("resource").forEach(function(r) {
+      var type = r.initiatorType || "other";
+      var bucket = byType[type] || (byType[type] = { count: 0, transferBytes: 0 });
+      bucket.count++;
+      bucket.transferBytes += r.transferSize || 0;
+      total.count++;
+      total.transferBytes += r.transferSize || 0;
+    });
+
+    var longTasks = null;
+    if (state.longTasks) {
+      longTasks = {
+        count: state.longTasks.length,
+        totalBlockingTime: round(state.longTasks.reduce(function(sum, d) { return sum + Math.max(0, d - 50); }, 0)),
+        longest: round(state.longTasks.reduce(function(max, d) { return Math.max(max, d); }, 0))
+      };
+    }
+
+    return {
+      url: location.href,
+      lcp: state.lcp === null ? null : round(state.lcp),
+      lcpElement: state.lcpElement,
+      cls: Math.round(cls() * 1000) / 1000,
+      inp: inp(),
+      fcp: fcp ? round(fcp.startTime) : null,
+      ttfb: nav ? round(nav.responseStart) : null,
+      navigation: nav ? {
+        type: nav.type,
+        domInteractive: round(nav.domInteractive),
+        domContentLoaded: round(nav.domContentLoadedEventEnd),
+        load: round(nav.loadEventEnd),
+        transferBytes: nav.transferSize || 0
+      } : null,
+      longTasks: longTasks,
+      resources: { byType: byType, total: total }
+    };
+  };
+})();
+`;
+
+/** Install the observers for every future document on this page */
+export async function installVitals(page: Page): Promise<void> {
+  await page.addInitScript(VITALS_SCRIPT);
+}
+
+/** Collect metrics for the page's current document */
+export async function collectVitals(page: Page): Promise<VitalsReport> {
+  const hooked = await page.evaluate("typeof window.__devBrowser_getVitals === 'function'");
+  if (!hooked) {
+    await page.evaluate(VITALS_SCRIPT);
+    await page.waitForTimeout(BUFFER_FLUSH_MS);
+  }
+  const report = (await page.evaluate("window.__devBrowser_getVitals()")) as Omit<
+    VitalsReport,
+    "collectedAt"
+  >;
+  return { ...report, collectedAt: new Date().toISOString() };
+}